@@ -0,0 +1,138 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { FunctionFragment, Interface } from 'ethers'
+import * as abis from '../src/abis'
+import { createLookupCache, lookupKey } from '../src/cache'
+import { config } from '../src/config'
+import type { DecodedCall, DecodedParam } from '../src/decodedCall'
+import { createFileStore } from '../src/fileCache'
+import { decodeStoredProposal, type StoredProposal } from '../src/proposals'
+import { fitsCallData, getSelector, type SignatureDatabase } from '../src/signatures'
+
+const DATABASE_FILE = 'src/signatureDatabase.json'
+const CACHE_FILE = 'data/lookup-cache.json' // shared with the CLI and UI
+
+// Every function of the ABIs the decoder ships with: governance and Arbitrum system contracts
+const getLocalSignatures = (): string[] =>
+  Object.values(abis).flatMap((abi) => {
+    const signatures: string[] = []
+    new Interface(abi).forEachFunction((fragment) => signatures.push(fragment.format('sighash')))
+    return signatures
+  })
+
+const getNestedCallData = (call: DecodedCall): string[] => {
+  const walk = (param: DecodedParam): string[] => [
+    ...(param.call ? [param.value, ...getNestedCallData(param.call)] : []),
+    ...(param.components ?? []).flatMap(walk),
+  ]
+  return call.params.flatMap(walk)
+}
+
+// Calldata in each governor's data file: the proposals' own calls, the actions they decode to
+// and everything nested in those
+const getObservedCallData = (): string[] => {
+  const callData: string[] = []
+  for (const governor of config.governors) {
+    const file = join('data', governor.dataFile)
+    if (!existsSync(file)) continue
+    const proposals: StoredProposal[] = JSON.parse(readFileSync(file, 'utf8'))
+    for (const proposal of proposals) {
+      callData.push(...proposal.calldatas)
+      try {
+        for (const action of decodeStoredProposal(proposal, governor.id)) {
+          callData.push(action.callData, ...(action.decodedCall ? getNestedCallData(action.decodedCall) : []))
+        }
+      } catch {
+        // Proposals that don't decode still contribute their top-level calldata
+      }
+    }
+  }
+  return callData.filter((data) => data && data.length >= 10)
+}
+
+const fetchJSON = async <T>(url: string): Promise<T> => (await fetch(url)).json() as Promise<T>
+
+type FourByteResponse = { results?: { text_signature: string }[] }
+type OpenchainResponse = { result?: { function?: Record<string, { name: string }[] | null> } }
+
+// 4byte.directory and openchain both return every signature they have for a selector
+async function fetchCandidates(selector: string): Promise<string[] | null> {
+  const [fourByte, openchain] = await Promise.all([
+    fetchJSON<FourByteResponse>(`https://www.4byte.directory/api/v1/signatures/?hex_signature=${selector}`),
+    fetchJSON<OpenchainResponse>(
+      `https://api.openchain.xyz/signature-database/v1/lookup?function=${selector}&filter=false`,
+    ),
+  ])
+  const candidates = [
+    ...(fourByte.results ?? []).map((result) => result.text_signature),
+    ...(openchain.result?.function?.[selector] ?? []).map((entry) => entry.name),
+  ]
+  return candidates.length ? candidates : null
+}
+
+const readDatabase = (): SignatureDatabase =>
+  existsSync(DATABASE_FILE)
+    ? JSON.parse(readFileSync(DATABASE_FILE, 'utf8'))
+    : { version: 0, signatures: {} }
+
+async function main() {
+  // --offline skips the signature services and only adds what the local ABIs cover
+  const offline = process.argv.includes('--offline')
+  const existing = readDatabase()
+  const signatures = new Map<string, Set<string>>()
+  const add = (signature: string) => {
+    const fragment = FunctionFragment.from(`function ${signature}`)
+    const known = signatures.get(fragment.selector) ?? new Set()
+    signatures.set(fragment.selector, known.add(fragment.format('sighash')))
+  }
+
+  Object.values(existing.signatures).flat().forEach(add)
+  getLocalSignatures().forEach(add)
+
+  // Observed calldata whose selector nothing local fits, grouped by selector
+  const unresolved = new Map<string, string[]>()
+  for (const data of getObservedCallData()) {
+    const selector = getSelector(data)
+    const known = [...(signatures.get(selector) ?? [])]
+    if (known.some((signature) => fitsCallData(signature, data))) continue
+    unresolved.set(selector, [...(unresolved.get(selector) ?? []), data])
+  }
+  console.log(`${unresolved.size} observed selector(s) not covered by the local ABIs`)
+
+  if (!offline) {
+    const lookupCache = createLookupCache(createFileStore(CACHE_FILE))
+    for (const [selector, samples] of unresolved) {
+      try {
+        const candidates = await lookupCache.lookup(lookupKey('signature', selector), 'signature', () =>
+          fetchCandidates(selector),
+        )
+        // Colliding signatures are only kept if they fit calldata we've actually seen
+        const fitting = (candidates ?? []).filter((signature) =>
+          samples.some((data) => fitsCallData(signature, data)),
+        )
+        fitting.forEach(add)
+        console.log(`  ${selector}: ${fitting.length ? fitting.join(', ') : 'no fitting signature'}`)
+      } catch (err) {
+        console.warn(`  ${selector}: lookup failed (${err instanceof Error ? err.message : err})`)
+      }
+    }
+  }
+
+  const sorted = Object.fromEntries(
+    [...signatures.keys()].sort().map((selector) => [selector, [...signatures.get(selector)!].sort()]),
+  )
+  const changed = JSON.stringify(sorted) !== JSON.stringify(existing.signatures)
+  const database: SignatureDatabase = {
+    version: changed ? existing.version + 1 : existing.version,
+    signatures: sorted,
+  }
+  writeFileSync(DATABASE_FILE, JSON.stringify(database, null, 2))
+  console.log(
+    `Saved ${Object.keys(sorted).length} selectors to ${DATABASE_FILE} (version ${database.version}${changed ? '' : ', unchanged'})`,
+  )
+}
+
+main().catch((err) => {
+  console.error(err)
+  process.exitCode = 1
+})
@@ -1,65 +1,139 @@
-import { ethers } from 'ethers'
-import { writeFileSync, mkdirSync } from 'fs'
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs'
+import { join } from 'path'
+import { getChainBackend } from '../src/backends'
+import { config, type GovernorId } from '../src/config'
+import {
+  getLastIndexedBlock,
+  serializeIndexerState,
+  serializeProposals,
+  updateGovernorIndex,
+  type BlockRange,
+  type GovernorIndex,
+  type IndexerState,
+} from '../src/indexer'
+import {
+  emptyLifecycleEvents,
+  fetchProposalLifecycles,
+  L1_TIMELOCK_START_BLOCK,
+  type LifecycleEvents,
+  type ProposalLifecycle,
+} from '../src/lifecycle'
+import { loadNetworksFile } from '../src/networksFile'
+import { getNetworkProvider } from '../src/provider'
+import type { StoredProposal } from '../src/proposals'
 
-const CORE_GOVERNOR = '0xf07DeD9dC292157749B6Fd268E37DF6EA38395B9'
-const TREASURY_GOVERNOR = '0x789fC99093B09aD01C34DC7251D0C89ce743e5a4'
-const START_BLOCK = 98424025
-const CHUNK_SIZE = 5_000_000 // Arbitrum RPC block range limit
+const STATE_FILE = 'data/indexer-state.json'
+const EVENTS_FILE = 'data/lifecycle-events.json'
+const LIFECYCLES_FILE = 'data/proposal-lifecycles.json'
 
-const abi = [
-  'event ProposalCreated(uint256 proposalId, address proposer, address[] targets, uint256[] values, string[] signatures, bytes[] calldatas, uint256 startBlock, uint256 endBlock, string description)',
-]
+// Logs come from each chain's configured backends, e.g. an explorer instead of a public RPC
+const getLogSource = (chainID: number) =>
+  getChainBackend(chainID, { apiKey: process.env.ETHERSCAN_API_KEY })
 
-async function fetchProposals(provider: ethers.JsonRpcProvider, governorAddress: string, latestBlock: number) {
-  const contract = new ethers.Contract(governorAddress, abi, provider)
-  const allProposals: any[] = []
+const emptyState = (): IndexerState => ({ lastIndexedBlock: {} })
 
-  for (let from = START_BLOCK; from <= latestBlock; from += CHUNK_SIZE) {
-    const to = Math.min(from + CHUNK_SIZE - 1, latestBlock)
-    console.log(`  Chunk ${from}-${to}...`)
+const readJSON = <T>(file: string, fallback: T): T =>
+  existsSync(file) ? JSON.parse(readFileSync(file, 'utf8')) : fallback
 
-    const events = await contract.queryFilter('ProposalCreated', from, to)
-
-    for (const event of events) {
-      const e = event as ethers.EventLog
-      const [proposalId, proposer, targets, values, signatures, calldatas, startBlock, endBlock, description] = e.args
-
-      allProposals.push({
-        proposalId: proposalId.toString(),
-        proposer,
-        targets: [...targets],
-        values: values.map((v: bigint) => v.toString()),
-        signatures: [...signatures],
-        calldatas: [...calldatas],
-        startBlock: Number(startBlock),
-        endBlock: Number(endBlock),
-        description,
-        blockNumber: e.blockNumber,
-        transactionHash: e.transactionHash,
-      })
-    }
+// Latest block per chain, asked for once however many governors live there
+const getLatestBlocks = async (chainIDs: number[]): Promise<Record<number, number>> => {
+  const latest: Record<number, number> = {}
+  for (const chainID of new Set(chainIDs)) {
+    const provider = getNetworkProvider(chainID)
+    if (!provider) throw new Error(`No RPC for chain ${chainID}`)
+    latest[chainID] = await provider.getBlockNumber()
   }
-
-  return allProposals
+  return latest
 }
 
 async function main() {
-  const provider = new ethers.JsonRpcProvider('https://arb1.arbitrum.io/rpc')
-  const latestBlock = await provider.getBlockNumber()
+  // Same overrides as the CLI, so governors added there are fetched too
+  if (process.env.PROPOSAL_DECODER_NETWORKS) loadNetworksFile(process.env.PROPOSAL_DECODER_NETWORKS)
+
+  const latestBlocks = await getLatestBlocks([
+    1,
+    ...config.governors.map((governor) => governor.chainID),
+    ...config.chains.map((chain) => chain.chainID),
+  ])
 
   mkdirSync('data', { recursive: true })
 
-  console.log(`Fetching Core Governor proposals (blocks ${START_BLOCK} to ${latestBlock})...`)
-  const coreProposals = await fetchProposals(provider, CORE_GOVERNOR, latestBlock)
-  console.log(`Found ${coreProposals.length} core proposals`)
-  writeFileSync('data/proposals.json', JSON.stringify(coreProposals, null, 2))
-  console.log('Saved to data/proposals.json')
+  // --full ignores what's already indexed and rescans from the governors' deployment
+  const full = process.argv.includes('--full')
+  const state: IndexerState = full ? emptyState() : readJSON(STATE_FILE, emptyState())
+  const proposals: Record<GovernorId, StoredProposal[]> = {}
 
-  console.log(`\nFetching Treasury Governor proposals (blocks ${START_BLOCK} to ${latestBlock})...`)
-  const treasuryProposals = await fetchProposals(provider, TREASURY_GOVERNOR, latestBlock)
-  console.log(`Found ${treasuryProposals.length} treasury proposals`)
-  writeFileSync('data/treasury-proposals.json', JSON.stringify(treasuryProposals, null, 2))
-  console.log('Saved to data/treasury-proposals.json')
+  for (const governor of config.governors) {
+    const file = join('data', governor.dataFile)
+    const latestBlock = latestBlocks[governor.chainID]
+    const lastIndexedBlock = getLastIndexedBlock(state, governor)
+    const saveIndex = (index: GovernorIndex) => {
+      writeFileSync(file, serializeProposals(index.proposals))
+      state.lastIndexedBlock[governor.id] = index.lastIndexedBlock
+      writeFileSync(STATE_FILE, serializeIndexerState(state))
+    }
+    console.log(
+      `Fetching ${governor.name} proposals (blocks ${lastIndexedBlock + 1} to ${latestBlock})...`,
+    )
+    const index = await updateGovernorIndex(
+      getLogSource(governor.chainID),
+      governor.address,
+      { proposals: full ? [] : readJSON(file, []), lastIndexedBlock },
+      latestBlock,
+      {
+        onProgress: (range, count) =>
+          console.log(`  Blocks ${range.fromBlock}-${range.toBlock}: ${count} new proposal(s)`),
+        // Saved as each chunk is indexed so an interrupted run resumes where it stopped
+        onCheckpoint: (checkpoint) => saveIndex(checkpoint),
+      },
+    )
+    console.log(`${index.proposals.length} ${governor.name} proposals`)
+
+    saveIndex(index)
+    console.log(`Saved to ${file}`)
+    proposals[governor.id] = index.proposals
+  }
+
+  console.log('\nIndexing proposal lifecycles (queue, execution, L1 Timelock, retryables)...')
+  // Each chain from its earliest governor's deployment (or from genesis for chains without one)
+  const ranges: Record<number, BlockRange> = {}
+  for (const [chainID, toBlock] of Object.entries(latestBlocks)) {
+    const startBlocks = config.governors
+      .filter((governor) => governor.chainID === Number(chainID))
+      .map((governor) => governor.startBlock)
+    const fromBlock =
+      Number(chainID) === 1 ? L1_TIMELOCK_START_BLOCK : startBlocks.length ? Math.min(...startBlocks) : 0
+    ranges[Number(chainID)] = { fromBlock, toBlock }
+  }
+  // The state's cursors say how far the saved events go, so they're only used together
+  const resume = !full && existsSync(EVENTS_FILE)
+  const events: LifecycleEvents = resume ? readJSON(EVENTS_FILE, emptyLifecycleEvents()) : emptyLifecycleEvents()
+  const cursors = resume ? state.lifecycleBlocks : undefined
+  const lifecycles = await fetchProposalLifecycles(
+    proposals,
+    {
+      getProvider: getNetworkProvider,
+      getLogSource,
+      ranges,
+      cursors,
+      // Saved as each chunk is indexed so an interrupted run resumes where it stopped
+      onCheckpoint: (checkpoint, blocks) => {
+        writeFileSync(EVENTS_FILE, JSON.stringify(checkpoint, null, 2))
+        state.lifecycleBlocks = blocks
+        writeFileSync(STATE_FILE, serializeIndexerState(state))
+      },
+      onStateError: (proposalId, err) =>
+        console.warn(`  Could not read the state of proposal ${proposalId}: ${err}`),
+    },
+    events,
+    // Proposals already in a final state aren't read again
+    full ? [] : readJSON<ProposalLifecycle[]>(LIFECYCLES_FILE, []),
+  )
+  writeFileSync(LIFECYCLES_FILE, JSON.stringify(lifecycles, null, 2))
+  console.log(`Saved to ${LIFECYCLES_FILE}`)
 }
 
-main().catch(console.error)
+main().catch((err) => {
+  console.error(err)
+  process.exitCode = 1
+})
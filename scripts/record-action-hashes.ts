@@ -0,0 +1,102 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { Contract, keccak256 } from 'ethers'
+import { governorABI } from '../src/abis'
+import { config, type GovernorConfig } from '../src/config'
+import { governorStates, type ProposalLifecycle } from '../src/lifecycle'
+import { decodeStoredProposal, type StoredProposal } from '../src/proposals'
+import { getNetworkProvider } from '../src/provider'
+import type { ExpectedCodeHash } from '../src/verification'
+
+const HASHES_FILE = 'data/action-contract-hashes.json'
+const LIFECYCLES_FILE = 'data/proposal-lifecycles.json'
+
+// --proposals <id,...> names the reviewed proposals explicitly; otherwise only executed ones count
+const getReviewedIds = (args: string[]): Set<string> | undefined => {
+  const i = args.indexOf('--proposals')
+  if (i === -1) return undefined
+  if (!args[i + 1]) throw new Error('--proposals needs a comma separated list of proposal IDs')
+  return new Set(args[i + 1].split(',').map((proposalId) => BigInt(proposalId).toString()))
+}
+
+// The stored lifecycle state when the last fetch saw the proposal executed, governor.state() otherwise
+const isExecuted = async (
+  governor: GovernorConfig,
+  proposalId: string,
+  lifecycles: ProposalLifecycle[],
+): Promise<boolean> => {
+  const stored = lifecycles.find((lifecycle) => lifecycle.proposalId === proposalId)
+  if (stored?.state === 'Executed' || stored?.executed) return true
+  const provider = getNetworkProvider(governor.chainID)
+  if (!provider) throw new Error(`No RPC for chain ${governor.chainID}`)
+  const state = await new Contract(governor.address, governorABI, provider).state(proposalId)
+  return governorStates[Number(state)] === 'Executed'
+}
+
+// Action contracts of proposals that passed their vote and were executed (or the ones named on
+// the command line). Pending, active or queued proposals haven't been reviewed, so their
+// contracts stay unlisted and keep getting flagged
+const getReviewedActionContracts = async (
+  reviewedIds: Set<string> | undefined,
+): Promise<Omit<ExpectedCodeHash, 'codeHash'>[]> => {
+  const lifecycles: ProposalLifecycle[] = existsSync(LIFECYCLES_FILE)
+    ? JSON.parse(readFileSync(LIFECYCLES_FILE, 'utf8'))
+    : []
+  const contracts = new Map<string, Omit<ExpectedCodeHash, 'codeHash'>>()
+  for (const governor of config.governors) {
+    const file = join('data', governor.dataFile)
+    if (!existsSync(file)) continue
+    const proposals: StoredProposal[] = JSON.parse(readFileSync(file, 'utf8'))
+    for (const proposal of proposals) {
+      const reviewed = reviewedIds
+        ? reviewedIds.has(BigInt(proposal.proposalId).toString())
+        : await isExecuted(governor, proposal.proposalId, lifecycles)
+      if (!reviewed) continue
+
+      let actions
+      try {
+        actions = decodeStoredProposal(proposal, governor.id)
+      } catch {
+        continue
+      }
+      for (const { type, chainID, address } of actions) {
+        const key = `${chainID}:${address.toLowerCase()}`
+        if (type !== 'DELEGATECALL' || contracts.has(key)) continue
+        const name = `${governor.name} proposal ${proposal.proposalId.slice(0, 10)}… action contract`
+        contracts.set(key, { chainID, address, name })
+      }
+    }
+  }
+  return [...contracts.values()]
+}
+
+async function main() {
+  const expected: ExpectedCodeHash[] = existsSync(HASHES_FILE)
+    ? JSON.parse(readFileSync(HASHES_FILE, 'utf8'))
+    : []
+  const listed = new Set(expected.map((entry) => `${entry.chainID}:${entry.address.toLowerCase()}`))
+
+  const contracts = (await getReviewedActionContracts(getReviewedIds(process.argv.slice(2)))).filter(
+    (contract) => !listed.has(`${contract.chainID}:${contract.address.toLowerCase()}`),
+  )
+  console.log(`${contracts.length} action contract(s) of reviewed proposals not listed yet`)
+
+  for (const { chainID, address, name } of contracts) {
+    const provider = getNetworkProvider(chainID)
+    if (!provider) throw new Error(`No RPC for chain ${chainID}`)
+    const code = await provider.getCode(address)
+    if (code === '0x') {
+      console.warn(`  No code at ${address} on chain ${chainID}, skipped`)
+      continue
+    }
+    expected.push({ chainID, address, codeHash: keccak256(code), name })
+    // Saved as it goes so an interrupted run keeps what it recorded
+    writeFileSync(HASHES_FILE, JSON.stringify(expected, null, 2))
+    console.log(`  ${address} (chain ${chainID})`)
+  }
+}
+
+main().catch((err) => {
+  console.error(err)
+  process.exitCode = 1
+})
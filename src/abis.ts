@@ -3,11 +3,17 @@
  export const l1TimelockABI = [
     'function scheduleBatch(address[] targets, uint256[] values, bytes[] payloads, bytes32 predecessor, bytes32 salt, uint256 delay)',
     'function schedule(address target, uint256 value, bytes data, bytes32 predecessor, bytes32 salt, uint256 delay)',
+    'function executeBatch(address[] targets, uint256[] values, bytes[] payloads, bytes32 predecessor, bytes32 salt) payable',
+    'function execute(address target, uint256 value, bytes payload, bytes32 predecessor, bytes32 salt) payable',
+    'event CallScheduled(bytes32 indexed id, uint256 indexed index, address target, uint256 value, bytes data, bytes32 predecessor, uint256 delay)',
+    'event CallExecuted(bytes32 indexed id, uint256 indexed index, address target, uint256 value, bytes data)',
   ];
 
 export const upgradeExecutorABI = [
   'function execute(address upgrade, bytes upgradeCallData) payable',
   'function executeCall(address target, bytes targetCallData) payable',
+  'event UpgradeExecuted(address indexed upgrade, uint256 value, bytes data)',
+  'event TargetCallExecuted(address indexed target, uint256 value, bytes data)',
 ];
 
 export const arbSysABI = [
@@ -26,4 +32,169 @@ export const arbSysABI = [
   'event L2ToL1Tx(address caller, address indexed destination, uint256 indexed hash, uint256 indexed position, uint256 arbBlockNum, uint256 ethBlockNum, uint256 timestamp, uint256 callvalue, bytes data)',
   'event L2ToL1Transaction(address caller, address indexed destination, uint256 indexed uniqueId, uint256 indexed batchNumber, uint256 indexInBatch, uint256 arbBlockNum, uint256 ethBlockNum, uint256 timestamp, uint256 callvalue, bytes data)',
   'event SendMerkleUpdate(uint256 indexed reserved, bytes32 indexed hash, uint256 indexed position)',
-];
\ No newline at end of file
+];
+export const inboxABI = [
+  'function createRetryableTicket(address to, uint256 l2CallValue, uint256 maxSubmissionCost, address excessFeeRefundAddress, address callValueRefundAddress, uint256 gasLimit, uint256 maxFeePerGas, bytes data) payable returns (uint256)',
+  'function unsafeCreateRetryableTicket(address to, uint256 l2CallValue, uint256 maxSubmissionCost, address excessFeeRefundAddress, address callValueRefundAddress, uint256 gasLimit, uint256 maxFeePerGas, bytes data) payable returns (uint256)',
+  'function sendContractTransaction(uint256 gasLimit, uint256 maxFeePerGas, address to, uint256 value, bytes data) returns (uint256)',
+  'function sendUnsignedTransaction(uint256 gasLimit, uint256 maxFeePerGas, uint256 nonce, address to, uint256 value, bytes data) returns (uint256)',
+  'function sendL2Message(bytes messageData) returns (uint256)',
+  'event InboxMessageDelivered(uint256 indexed messageNum, bytes data)',
+];
+
+export const actionContractABI = ['function perform()'];
+
+export const proxyAdminABI = [
+  'function upgrade(address proxy, address implementation)',
+  'function upgradeAndCall(address proxy, address implementation, bytes data) payable',
+  'function changeProxyAdmin(address proxy, address newAdmin)',
+  'function transferOwnership(address newOwner)',
+  'function renounceOwnership()',
+];
+
+// UUPS proxies and UpgradeableBeacons share these selectors
+export const upgradeableABI = [
+  'function upgradeTo(address newImplementation)',
+  'function upgradeToAndCall(address newImplementation, bytes data) payable',
+];
+
+export const rollupAdminABI = [
+  'function setValidator(address[] validators, bool[] val)',
+  'function setValidatorWhitelistDisabled(bool disabled)',
+  'function setOwner(address newOwner)',
+  'function setMinimumAssertionPeriod(uint256 newPeriod)',
+  'function setConfirmPeriodBlocks(uint64 newConfirmPeriod)',
+  'function setExtraChallengeTimeBlocks(uint64 newExtraTimeBlocks)',
+  'function setBaseStake(uint256 newBaseStake)',
+  'function setStakeToken(address newStakeToken)',
+  'function setLoserStakeEscrow(address newLoserStakerEscrow)',
+  'function setWasmModuleRoot(bytes32 newWasmModuleRoot)',
+  'function setInbox(address newInbox)',
+  'function setSequencerInbox(address newSequencerInbox)',
+  'function setOutbox(address newOutbox)',
+  'function removeOldOutbox(address outbox)',
+  'function setDelayedInbox(address inbox, bool enabled)',
+  'function setAnyTrustFastConfirmer(address anyTrustFastConfirmer)',
+  'function forceRefundStaker(address[] stakers)',
+  'function pause()',
+  'function resume()',
+];
+
+export const erc20ABI = [
+  'function transfer(address to, uint256 amount) returns (bool)',
+  'function transferFrom(address from, address to, uint256 amount) returns (bool)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+  'function increaseAllowance(address spender, uint256 addedValue) returns (bool)',
+  'function decreaseAllowance(address spender, uint256 subtractedValue) returns (bool)',
+  'function mint(address recipient, uint256 amount)',
+  'function transferOwnership(address newOwner)',
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)',
+];
+
+export const treasuryWalletABI = [
+  'function transfer(address token, address to, uint256 amount)',
+  'function sendETH(address to, uint256 amount)',
+];
+
+export const accessControlABI = [
+  'function grantRole(bytes32 role, address account)',
+  'function revokeRole(bytes32 role, address account)',
+  'function renounceRole(bytes32 role, address account)',
+];
+
+export const governorABI = [
+  'function relay(address target, uint256 value, bytes data) payable',
+  'function setVotingDelay(uint256 newVotingDelay)',
+  'function setVotingPeriod(uint256 newVotingPeriod)',
+  'function setProposalThreshold(uint256 newProposalThreshold)',
+  'function updateQuorumNumerator(uint256 newQuorumNumerator)',
+  'function setLateQuorumVoteExtension(uint64 newVoteExtension)',
+  'function updateTimelock(address newTimelock)',
+  'function propose(address[] targets, uint256[] values, bytes[] calldatas, string description) returns (uint256)',
+  'function queue(address[] targets, uint256[] values, bytes[] calldatas, bytes32 descriptionHash) returns (uint256)',
+  'function execute(address[] targets, uint256[] values, bytes[] calldatas, bytes32 descriptionHash) payable returns (uint256)',
+  'function state(uint256 proposalId) view returns (uint8)',
+  'function proposalVotes(uint256 proposalId) view returns (uint256 againstVotes, uint256 forVotes, uint256 abstainVotes)',
+  'event ProposalCreated(uint256 proposalId, address proposer, address[] targets, uint256[] values, string[] signatures, bytes[] calldatas, uint256 startBlock, uint256 endBlock, string description)',
+  'event ProposalQueued(uint256 proposalId, uint256 eta)',
+  'event ProposalExecuted(uint256 proposalId)',
+  'event ProposalCanceled(uint256 proposalId)',
+  'event VoteCast(address indexed voter, uint256 proposalId, uint8 support, uint256 weight, string reason)',
+  'event VoteCastWithParams(address indexed voter, uint256 proposalId, uint8 support, uint256 weight, string reason, bytes params)',
+];
+
+export const gnosisSafeABI = [
+  'function execTransaction(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, bytes signatures) payable returns (bool)',
+  'function addOwnerWithThreshold(address owner, uint256 threshold)',
+  'function removeOwner(address prevOwner, address owner, uint256 threshold)',
+  'function swapOwner(address prevOwner, address oldOwner, address newOwner)',
+  'function changeThreshold(uint256 threshold)',
+  'function enableModule(address module)',
+  'function disableModule(address prevModule, address module)',
+];
+
+// Safe's MultiSend / MultiSendCallOnly; transactions are packed (operation, to, value, dataLength, data)
+export const multiSendABI = ['function multiSend(bytes transactions) payable'];
+
+// ArbitrumVestingWalletsFactory, used to hand out vested ARB
+export const vestingWalletFactoryABI = [
+  'function createWallets(uint64 startTimestamp, uint64 duration, address[] beneficiaries) returns (address[])',
+];
+
+// Hedgey's BatchPlanner, which funds vesting or lockup plans for many recipients in one call
+export const hedgeyBatchPlannerABI = [
+  'function batchVestingPlans(address locker, address token, uint256 totalAmount, tuple(address recipient, uint256 amount, uint256 start, uint256 cliff, uint256 rate)[] plans, uint256 period, address vestingAdmin, bool adminTransferOBO, uint8 mintType)',
+  'function batchLockingPlans(address locker, address token, uint256 totalAmount, tuple(address recipient, uint256 amount, uint256 start, uint256 cliff, uint256 rate)[] plans, uint256 period, uint8 mintType)',
+];
+
+// Sablier V2 LockupLinear stream creation, v2.0 (createWithRange) and v2.1 (transferable streams)
+export const sablierLockupLinearABI = [
+  'function createWithDurations(tuple(address sender, address recipient, uint128 totalAmount, address asset, bool cancelable, tuple(uint40 cliff, uint40 total) durations, tuple(address account, uint256 fee) broker) params) returns (uint256 streamId)',
+  'function createWithRange(tuple(address sender, address recipient, uint128 totalAmount, address asset, bool cancelable, tuple(uint40 start, uint40 cliff, uint40 end) range, tuple(address account, uint256 fee) broker) params) returns (uint256 streamId)',
+  'function createWithDurations(tuple(address sender, address recipient, uint128 totalAmount, address asset, bool cancelable, bool transferable, tuple(uint40 cliff, uint40 total) durations, tuple(address account, uint256 fee) broker) params) returns (uint256 streamId)',
+  'function createWithTimestamps(tuple(address sender, address recipient, uint128 totalAmount, address asset, bool cancelable, bool transferable, tuple(uint40 start, uint40 cliff, uint40 end) timestamps, tuple(address account, uint256 fee) broker) params) returns (uint256 streamId)',
+];
+
+// Token bridge routers: a child chain's router withdraws to its parent, a parent chain's deposits
+export const gatewayRouterABI = [
+  'function outboundTransfer(address l1Token, address to, uint256 amount, bytes data) payable returns (bytes)',
+  'function outboundTransfer(address token, address to, uint256 amount, uint256 maxGas, uint256 gasPriceBid, bytes data) payable returns (bytes)',
+  'function outboundTransferCustomRefund(address token, address refundTo, address to, uint256 amount, uint256 maxGas, uint256 gasPriceBid, bytes data) payable returns (bytes)',
+];
+
+export const arbOwnerABI = [
+  'function addChainOwner(address newOwner)',
+  'function removeChainOwner(address ownerToRemove)',
+  'function setNetworkFeeAccount(address newNetworkFeeAccount)',
+  'function setInfraFeeAccount(address newInfraFeeAccount)',
+  'function scheduleArbOSUpgrade(uint64 newVersion, uint64 timestamp)',
+  'function setChainConfig(string chainConfig)',
+  'function setL2BaseFee(uint256 priceInWei)',
+  'function setMinimumL2BaseFee(uint256 priceInWei)',
+  'function setSpeedLimit(uint64 limit)',
+  'function setMaxTxGasLimit(uint64 limit)',
+  'function setL2GasPricingInertia(uint64 sec)',
+  'function setL2GasBacklogTolerance(uint64 sec)',
+  'function setL1BaseFeeEstimateInertia(uint64 inertia)',
+  'function setL1PricingEquilibrationUnits(uint256 equilibrationUnits)',
+  'function setL1PricingInertia(uint64 inertia)',
+  'function setL1PricingRewardRecipient(address recipient)',
+  'function setL1PricingRewardRate(uint64 weiPerUnit)',
+  'function setL1PricePerUnit(uint256 pricePerUnit)',
+  'function setPerBatchGasCharge(int64 cost)',
+  'function setAmortizedCostCapBips(uint64 cap)',
+  'function setBrotliCompressionLevel(uint64 level)',
+  'function releaseL1PricerSurplusFunds(uint256 maxWeiToRelease) returns (uint256)',
+  'function setInkPrice(uint32 price)',
+  'function setWasmMaxStackDepth(uint32 depth)',
+];
+
+export const outboxABI = [
+  'function executeTransaction(bytes32[] proof, uint256 index, address l2Sender, address to, uint256 l2Block, uint256 l1Block, uint256 l2Timestamp, uint256 value, bytes data)',
+];
+
+export const arbRetryableTxABI = [
+  'function redeem(bytes32 ticketId) returns (bytes32)',
+  'event RedeemScheduled(bytes32 indexed ticketId, bytes32 indexed retryTxHash, uint64 indexed sequenceNum, uint64 donatedGas, address gasDonor, uint256 maxRefund, uint256 submissionFeeRefund)',
+];
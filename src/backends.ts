@@ -0,0 +1,312 @@
+import type { Log, Provider, TopicFilter } from 'ethers';
+import { getBackendConfigs, type BackendConfig } from './config';
+import { createRpcProvider } from './provider';
+import type { VerifiedSource } from './verification';
+
+export interface LogFilter {
+  address: string;
+  topics?: TopicFilter;
+  fromBlock: number;
+  toBlock: number;
+}
+
+// What the indexers read from a log; ethers' Log has all of it
+export type LogEntry = Pick<
+  Log,
+  'address' | 'topics' | 'data' | 'blockNumber' | 'transactionHash' | 'index'
+>;
+
+// Everything the decoder asks of a chain besides plain RPC calls. A backend implements the
+// capabilities it has; getChainBackend() combines a chain's backends into one
+export interface ChainBackend {
+  getLogs(filter: LogFilter): Promise<LogEntry[]>;
+  getABI(address: string): Promise<string | null>; // JSON; null if the contract isn't verified
+  getSource(address: string): Promise<VerifiedSource | null>;
+  getStorage(address: string, slot: string): Promise<string>; // bytes32
+}
+
+export type BackendCapability = keyof ChainBackend;
+
+// ethers providers already fit these, so anything taking them also takes a Provider
+export type LogSource = Pick<ChainBackend, 'getLogs'>;
+export type StorageSource = Pick<ChainBackend, 'getStorage'>;
+
+export interface BackendOptions {
+  apiKey?: string; // for etherscan backends without their own key
+}
+
+const DEFAULT_SOURCIFY_URL = 'https://sourcify.dev/server';
+const EXPLORER_PAGE_SIZE = 1000;
+const EXPLORER_MAX_RESULTS = 10_000; // page * offset limit of etherscan-style log queries
+
+export function createRpcBackend(provider: Provider): Partial<ChainBackend> {
+  return {
+    getLogs: filter => provider.getLogs(filter),
+    getStorage: (address, slot) => provider.getStorage(address, slot),
+  };
+}
+
+// Shape of etherscan/blockscout API responses; errors come back as a string result
+interface ExplorerResponse<T> {
+  status: string;
+  message?: string;
+  result?: T | string;
+}
+
+interface ExplorerSource {
+  SourceCode: string;
+  ContractName: string;
+  ABI: string;
+  ConstructorArguments?: string;
+}
+
+interface ExplorerLog {
+  address: string;
+  topics: (string | null)[];
+  data: string;
+  blockNumber: string;
+  transactionHash: string;
+  logIndex: string;
+}
+
+// Unverified contracts are an answer (null) rather than an error, so they can be cached as such
+export const isUnverifiedResponse = (data: { status: string; result?: unknown }): boolean =>
+  data.status !== '1' && typeof data.result === 'string' && /not verified/i.test(data.result);
+
+// Explorers return either flat source, {...} multi-file JSON, or {{...}} standard JSON input
+const parseSourceFiles = (sourceCode: string, name: string): Record<string, string> => {
+  if (!sourceCode.startsWith('{')) return { [`${name}.sol`]: sourceCode };
+  try {
+    const parsed = JSON.parse(sourceCode.startsWith('{{') ? sourceCode.slice(1, -1) : sourceCode);
+    const sources: Record<string, { content: string }> = parsed.sources || parsed;
+    return Object.fromEntries(
+      Object.entries(sources).map(([path, { content }]) => [path, content])
+    );
+  } catch {
+    return { [`${name}.sol`]: sourceCode };
+  }
+};
+
+// Explorers write 0 as '0x' in some fields
+const hexToNumber = (hex: string) => (hex && hex !== '0x' ? Number(hex) : 0);
+
+const toLogEntry = (log: ExplorerLog): LogEntry => ({
+  address: log.address,
+  topics: log.topics.filter((topic): topic is string => !!topic),
+  data: log.data,
+  blockNumber: hexToNumber(log.blockNumber),
+  transactionHash: log.transactionHash,
+  index: hexToNumber(log.logIndex),
+});
+
+// Explorer log queries take one value per topic, so an OR on the first topic is one query each
+const splitTopicFilter = (topics: TopicFilter = []): Record<string, string>[] => {
+  if (topics.slice(1).some(topic => Array.isArray(topic))) {
+    throw new Error('Explorer log queries only support alternatives for the first topic');
+  }
+  const rest = Object.fromEntries(
+    topics.flatMap((topic, i) => (i > 0 && typeof topic === 'string' ? [[`topic${i}`, topic]] : []))
+  );
+  const andRest = Object.fromEntries(
+    Object.keys(rest).map(key => [`topic0_${key.slice(-1)}_opr`, 'and'])
+  );
+  const first = topics[0];
+  const firsts = Array.isArray(first) ? first : first ? [first] : [undefined];
+  return firsts.map(topic0 => ({
+    ...(topic0 ? { topic0, ...andRest } : {}),
+    ...rest,
+  }));
+};
+
+// Etherscan v2 and Blockscout share the etherscan API shape; only etherscan takes a chain ID and
+// key, and only it proxies eth_getStorageAt
+export function createExplorerBackend(
+  type: 'etherscan' | 'blockscout',
+  url: string,
+  chainID: number,
+  apiKey = ''
+): Partial<ChainBackend> {
+  const query = async <T>(params: Record<string, string | number>) => {
+    const search = new URLSearchParams(
+      Object.fromEntries(
+        Object.entries({
+          ...(type === 'etherscan' ? { chainid: chainID, apikey: apiKey } : {}),
+          ...params,
+        }).map(([key, value]) => [key, String(value)])
+      )
+    );
+    return (await (await fetch(`${url}?${search}`)).json()) as ExplorerResponse<T>;
+  };
+  const fail = (data: ExplorerResponse<unknown>): never => {
+    throw new Error(`Explorer error: ${data.result || data.message}`);
+  };
+
+  const getLogs = async ({ address, topics, fromBlock, toBlock }: LogFilter) => {
+    const logs: LogEntry[] = [];
+    for (const topicParams of splitTopicFilter(topics)) {
+      for (let page = 1; ; page++) {
+        if (page * EXPLORER_PAGE_SIZE > EXPLORER_MAX_RESULTS) {
+          // Worded so getLogsInRange treats it as a range error and splits the range
+          throw new Error(`Explorer query returned more than ${EXPLORER_MAX_RESULTS} results`);
+        }
+        const data = await query<ExplorerLog[]>({
+          module: 'logs',
+          action: 'getLogs',
+          address,
+          fromBlock,
+          toBlock,
+          ...topicParams,
+          page,
+          offset: EXPLORER_PAGE_SIZE,
+        });
+        // "No records found" comes back as status 0 with an empty list
+        if (!Array.isArray(data.result)) fail(data);
+        const result = data.result as ExplorerLog[];
+        logs.push(...result.map(toLogEntry));
+        if (result.length < EXPLORER_PAGE_SIZE) break;
+      }
+    }
+    return logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+  };
+
+  const getABI = async (address: string) => {
+    const data = await query<string>({ module: 'contract', action: 'getabi', address });
+    if (data.status === '1' && data.result) return data.result as string;
+    return isUnverifiedResponse(data) ? null : fail(data);
+  };
+
+  const getSource = async (address: string): Promise<VerifiedSource | null> => {
+    const data = await query<ExplorerSource[]>({
+      module: 'contract',
+      action: 'getsourcecode',
+      address,
+    });
+    if (isUnverifiedResponse(data)) return null;
+    if (data.status !== '1' || typeof data.result !== 'object') return fail(data);
+
+    const result = data.result?.[0];
+    if (!result?.SourceCode) return null;
+    return {
+      name: result.ContractName,
+      files: parseSourceFiles(result.SourceCode, result.ContractName),
+      abi: result.ABI,
+      constructorArguments: result.ConstructorArguments ?? '',
+    };
+  };
+
+  const getStorage = async (address: string, slot: string) => {
+    const data = await query<string>({
+      module: 'proxy',
+      action: 'eth_getStorageAt',
+      address,
+      position: slot,
+      tag: 'latest',
+    });
+    return typeof data.result === 'string' && /^0x[0-9a-f]*$/i.test(data.result)
+      ? data.result
+      : fail(data);
+  };
+
+  return type === 'etherscan'
+    ? { getLogs, getABI, getSource, getStorage }
+    : { getLogs, getABI, getSource };
+}
+
+// Sourcify's v2 API; contracts it hasn't verified come back as 404
+interface SourcifyContract {
+  abi: unknown[];
+  sources: Record<string, { content: string }>;
+  compilation: { name: string };
+  creationBytecode?: { transformationValues?: { constructorArguments?: string } };
+}
+
+export function createSourcifyBackend(
+  url = DEFAULT_SOURCIFY_URL,
+  chainID: number
+): Partial<ChainBackend> {
+  const lookup = async (address: string, fields: string): Promise<SourcifyContract | null> => {
+    const response = await fetch(`${url}/v2/contract/${chainID}/${address}?fields=${fields}`);
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error(`Sourcify error: ${response.status} ${response.statusText}`);
+    return (await response.json()) as SourcifyContract;
+  };
+
+  return {
+    getABI: async address => {
+      const contract = await lookup(address, 'abi');
+      return contract ? JSON.stringify(contract.abi) : null;
+    },
+    getSource: async address => {
+      const contract = await lookup(address, 'abi,sources,compilation,creationBytecode');
+      if (!contract) return null;
+      const constructorArguments =
+        contract.creationBytecode?.transformationValues?.constructorArguments ?? '';
+      return {
+        name: contract.compilation.name,
+        files: Object.fromEntries(
+          Object.entries(contract.sources).map(([path, { content }]) => [path, content])
+        ),
+        abi: JSON.stringify(contract.abi),
+        constructorArguments: constructorArguments.replace(/^0x/, ''),
+      };
+    },
+  };
+}
+
+export function createBackend(
+  backend: BackendConfig,
+  chainID: number,
+  options: BackendOptions = {}
+): Partial<ChainBackend> {
+  switch (backend.type) {
+    case 'rpc':
+      return createRpcBackend(createRpcProvider(backend.url, chainID));
+    case 'etherscan':
+      return createExplorerBackend(
+        'etherscan',
+        backend.url,
+        chainID,
+        backend.apiKey ?? options.apiKey
+      );
+    case 'blockscout':
+      return createExplorerBackend('blockscout', backend.url, chainID);
+    case 'sourcify':
+      return createSourcifyBackend(backend.url, chainID);
+  }
+}
+
+// The first verified result, so e.g. Sourcify can fill in contracts an explorer hasn't verified
+const firstVerified = async <T>(lookups: (() => Promise<T | null>)[]): Promise<T | null> => {
+  for (const lookup of lookups) {
+    const result = await lookup();
+    if (result) return result;
+  }
+  return null;
+};
+
+// The chain's backends combined: logs and storage come from the first backend that has them,
+// ABIs and sources from the first that has the contract verified (null if none does)
+export function getChainBackend(chainID: number, options: BackendOptions = {}): ChainBackend {
+  const backends = getBackendConfigs(chainID).map(backend =>
+    createBackend(backend, chainID, options)
+  );
+  const missing = (capability: BackendCapability) =>
+    new Error(`No backend for ${capability} on chain ${chainID}`);
+
+  return {
+    getLogs: filter => {
+      const backend = backends.find(entry => entry.getLogs);
+      return backend ? backend.getLogs!(filter) : Promise.reject(missing('getLogs'));
+    },
+    getABI: address =>
+      firstVerified(backends.flatMap(({ getABI }) => (getABI ? [() => getABI(address)] : []))),
+    getSource: address =>
+      firstVerified(
+        backends.flatMap(({ getSource }) => (getSource ? [() => getSource(address)] : []))
+      ),
+    getStorage: (address, slot) => {
+      const backend = backends.find(entry => entry.getStorage);
+      return backend ? backend.getStorage!(address, slot) : Promise.reject(missing('getStorage'));
+    },
+  };
+}
@@ -0,0 +1,114 @@
+// Explorer and signature lookups are slow and rate limited, so their results are kept in a
+// storage-backed cache: IndexedDB in the UI, a JSON file in Node (see fileCache.ts)
+
+export type LookupKind = 'abi' | 'source' | 'signature';
+
+export interface CacheEntry {
+  value: unknown; // JSON; null records that the lookup found nothing
+  expiresAt: number; // ms since epoch
+}
+
+// What export writes and import reads; the file cache is stored in the same shape
+export interface CacheSnapshot {
+  version: 1;
+  entries: Record<string, CacheEntry>;
+}
+
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  entries(): Promise<[string, CacheEntry][]>;
+}
+
+export interface LookupTTL {
+  found: number; // ms
+  missing: number; // shorter, since contracts get verified and signatures get submitted
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const defaultLookupTTLs: Record<LookupKind, LookupTTL> = {
+  abi: { found: 30 * DAY, missing: DAY },
+  source: { found: 30 * DAY, missing: DAY },
+  signature: { found: 7 * DAY, missing: DAY },
+};
+
+export interface LookupCache {
+  // Stored or in-flight result, otherwise fetch() once; failures (throws) aren't cached
+  lookup<T>(key: string, kind: LookupKind, fetch: () => Promise<T | null>): Promise<T | null>;
+  exportSnapshot(): Promise<CacheSnapshot>;
+  importSnapshot(snapshot: CacheSnapshot): Promise<number>; // how many entries were taken
+}
+
+// ABIs and sources are per contract; selectors mean the same on every chain
+export const lookupKey = (kind: LookupKind, id: string, chainID?: number): string =>
+  chainID === undefined ? `${kind}:${id.toLowerCase()}` : `${kind}:${chainID}:${id.toLowerCase()}`;
+
+export const emptySnapshot = (): CacheSnapshot => ({ version: 1, entries: {} });
+
+export function createMemoryStore(initial: Record<string, CacheEntry> = {}): CacheStore {
+  const entries = new Map(Object.entries(initial));
+  return {
+    get: async key => entries.get(key),
+    set: async (key, entry) => void entries.set(key, entry),
+    delete: async key => void entries.delete(key),
+    entries: async () => [...entries],
+  };
+}
+
+export function createLookupCache(
+  store: CacheStore = createMemoryStore(),
+  ttls: Record<LookupKind, LookupTTL> = defaultLookupTTLs,
+  now: () => number = Date.now
+): LookupCache {
+  const inFlight = new Map<string, Promise<unknown>>();
+
+  const lookup = async <T>(
+    key: string,
+    kind: LookupKind,
+    fetch: () => Promise<T | null>
+  ): Promise<T | null> => {
+    const stored = await store.get(key);
+    if (stored && stored.expiresAt > now()) return stored.value as T | null;
+
+    const pending = inFlight.get(key);
+    if (pending) return pending as Promise<T | null>;
+
+    const promise = fetch()
+      .then(async value => {
+        const ttl = value === null ? ttls[kind].missing : ttls[kind].found;
+        await store.set(key, { value, expiresAt: now() + ttl });
+        return value;
+      })
+      .finally(() => inFlight.delete(key));
+    inFlight.set(key, promise);
+    return promise;
+  };
+
+  // Expired entries are dropped rather than exported
+  const exportSnapshot = async (): Promise<CacheSnapshot> => {
+    const live = (await store.entries())
+      .filter(([, entry]) => entry.expiresAt > now())
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return { version: 1, entries: Object.fromEntries(live) };
+  };
+
+  // Entries that expire later win, so importing an older snapshot doesn't undo newer lookups
+  const importSnapshot = async (snapshot: CacheSnapshot): Promise<number> => {
+    if (snapshot?.version !== 1 || typeof snapshot.entries !== 'object') {
+      throw new Error('Not a lookup cache snapshot');
+    }
+    let imported = 0;
+    for (const [key, entry] of Object.entries(snapshot.entries)) {
+      if (entry.expiresAt <= now()) continue;
+      const stored = await store.get(key);
+      if (stored && stored.expiresAt >= entry.expiresAt) continue;
+      await store.set(key, entry);
+      imported++;
+    }
+    return imported;
+  };
+
+  return { lookup, exportSnapshot, importSnapshot };
+}
@@ -0,0 +1,235 @@
+#!/usr/bin/env node
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { createLookupCache, lookupKey, type LookupCache } from './cache';
+import { config, getChainName, type GovernorConfig, type GovernorId } from './config';
+import {
+  decode,
+  decodeSecurityCouncilTransaction,
+  getHighestSeverity,
+  type Action,
+  type WarningSeverity,
+} from './index';
+import {
+  formatActions,
+  formatSimulationResults,
+  formatVerificationResults,
+  outputFormats,
+  type OutputFormat,
+} from './format';
+import { createFileStore, readCacheSnapshot, serializeCacheSnapshot } from './fileCache';
+import { loadNetworksFile } from './networksFile';
+import { generateReport } from './report';
+import { simulateActions } from './simulate';
+import { resolveTransaction, type CrossCheck } from './transactions';
+import { fetchVerifiedSource, verifyActionContracts, type ExpectedCodeHash } from './verification';
+import { decodeStoredProposal, findProposal, type StoredProposal } from './proposals';
+
+const USAGE = `Usage: proposal-decoder decode <calldata|proposalId|tx-hash> [--format table|json|markdown]
+       proposal-decoder report <proposalId|tx-hash>
+       proposal-decoder council <calldata|safe-tx.json> [--chain <chainID>] [--format ...]
+       proposal-decoder verify <calldata|proposalId|tx-hash> [--format table|json|markdown]
+       proposal-decoder simulate <calldata|proposalId|tx-hash> --fork <chainID>=<rpc> [--fork ...]
+       proposal-decoder cache export|import <file>
+
+  calldata     raw core proposal calldata (ArbSys.sendTxToL1 or L1 Timelock schedule)
+  proposalId   a proposal ID from one of the configured governors' files in data/
+  tx-hash      the tx that created a proposal in data/, or any proposal creation, queue,
+               execute, Outbox/L1 Timelock execution or retryable redeem tx, looked up
+               via the networks' RPCs and checked against data/
+  safe-tx.json Safe Transaction Service or Transaction Builder JSON (a file path or inline)
+
+Options:
+  --chain <chainID>       chain a Security Council Safe tx runs on, unless its JSON says
+  --fork <chainID>=<rpc>  a local anvil/hardhat fork to simulate that chain's actions against
+  --networks <file>       JSON network overrides merged into the registry in config.ts
+                          (defaults to $PROPOSAL_DECODER_NETWORKS if set)
+  --cache <file>          where explorer lookups are cached (defaults to
+                          $PROPOSAL_DECODER_CACHE, or data/lookup-cache.json)
+
+verify checks DELEGATECALL action contracts against data/action-contract-hashes.json,
+using $ETHERSCAN_API_KEY for source lookups.
+
+cache export writes the unexpired lookups to a file; cache import merges one in, keeping
+whichever copy of an entry expires later. The UI reads data/lookup-cache.json too.`;
+
+// Resolved relative to this file so it works from both src/ (ts-node) and dist/
+const DATA_DIR = join(__dirname, '..', 'data');
+
+// Governors added through config may not have been fetched yet
+const loadProposals = (governor: GovernorConfig): StoredProposal[] => {
+  const file = join(DATA_DIR, governor.dataFile);
+  return existsSync(file) ? JSON.parse(readFileSync(file, 'utf8')) : [];
+};
+
+const DEFAULT_CACHE_FILE = join(DATA_DIR, 'lookup-cache.json');
+
+const loadExpectedCodeHashes = (): ExpectedCodeHash[] =>
+  JSON.parse(readFileSync(join(DATA_DIR, 'action-contract-hashes.json'), 'utf8'));
+
+// decode/report exit with these when the actions carry warnings, so scripts can gate on them
+const severityExitCodes: Record<WarningSeverity, number> = { info: 0, warning: 3, critical: 4 };
+
+const isProposalId = (input: string) => /^\d{70,80}$/.test(input);
+const isTxHash = (input: string) => /^0x[0-9a-fA-F]{64}$/.test(input);
+
+const lookupStoredProposal = (
+  input: string
+): { proposal: StoredProposal; governor: GovernorId } | undefined => {
+  for (const governor of config.governors) {
+    const proposal = findProposal(loadProposals(governor), input);
+    if (proposal) return { proposal, governor: governor.id };
+  }
+  return undefined;
+};
+
+function findStoredProposal(input: string): { proposal: StoredProposal; governor: GovernorId } {
+  const stored = lookupStoredProposal(input);
+  if (stored) return stored;
+  throw new Error(
+    `${isProposalId(input) ? 'Proposal ID' : 'Transaction'} not found in data/: ${input}`
+  );
+}
+
+// Raw calldata is always a core proposal, so it comes back without a governor
+function decodeInputWithGovernor(input: string): { actions: Action[]; governor?: GovernorId } {
+  if (isProposalId(input) || isTxHash(input)) {
+    const { proposal, governor } = findStoredProposal(input);
+    return { actions: decodeStoredProposal(proposal, governor), governor };
+  }
+
+  if (!/^0x[0-9a-fA-F]*$/.test(input)) {
+    throw new Error(`Input is not a proposal ID, tx hash or hex calldata: ${input}`);
+  }
+  return { actions: decode(input) };
+}
+
+export function decodeInput(input: string): Action[] {
+  return decodeInputWithGovernor(input).actions;
+}
+
+// Like decodeInputWithGovernor, but tx hashes that aren't proposal creations in data/ are looked up
+// on-chain; the cross-check against data/ is reported on stderr so stdout stays parseable
+async function resolveInput(
+  input: string
+): Promise<{ actions: Action[]; governor?: GovernorId; crossCheck?: CrossCheck }> {
+  if (!isTxHash(input) || lookupStoredProposal(input)) return decodeInputWithGovernor(input);
+
+  const resolved = await resolveTransaction(input, {
+    proposals: Object.fromEntries(
+      config.governors.map(governor => [governor.id, loadProposals(governor)])
+    ),
+  });
+  console.error(`Resolved ${resolved.kind} tx on ${getChainName(resolved.chainID)}`);
+  if (resolved.crossCheck) console.error(resolved.crossCheck.message);
+  return {
+    actions: resolved.actions,
+    governor: resolved.governor,
+    crossCheck: resolved.crossCheck,
+  };
+}
+
+const parseArgs = (argv: string[]) => {
+  const positional: string[] = [];
+  let format: OutputFormat = 'table';
+  let networks = process.env.PROPOSAL_DECODER_NETWORKS;
+  let cache = process.env.PROPOSAL_DECODER_CACHE ?? DEFAULT_CACHE_FILE;
+  const forks: Record<number, string> = {};
+  let chainID: number | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--format' || arg === '-f') {
+      format = argv[++i] as OutputFormat;
+    } else if (arg.startsWith('--format=')) {
+      format = arg.slice('--format='.length) as OutputFormat;
+    } else if (arg === '--networks') {
+      networks = argv[++i];
+    } else if (arg === '--cache') {
+      cache = argv[++i];
+    } else if (arg === '--chain') {
+      chainID = Number(argv[++i]);
+    } else if (arg === '--fork') {
+      const [chainID, ...url] = (argv[++i] ?? '').split('=');
+      forks[Number(chainID)] = url.join('=');
+    } else {
+      positional.push(arg);
+    }
+  }
+  return { positional, format, networks, cache, forks, chainID };
+};
+
+async function runCacheCommand(lookupCache: LookupCache, action: string, file: string) {
+  if (action === 'export') {
+    const snapshot = await lookupCache.exportSnapshot();
+    writeFileSync(file, serializeCacheSnapshot(snapshot));
+    console.log(`Exported ${Object.keys(snapshot.entries).length} lookups to ${file}`);
+  } else {
+    const imported = await lookupCache.importSnapshot(readCacheSnapshot(file));
+    console.log(`Imported ${imported} lookups from ${file}`);
+  }
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { positional, format, networks, cache, forks, chainID } = parseArgs(argv);
+  const [command, input] = positional;
+
+  if (
+    !['decode', 'report', 'council', 'verify', 'simulate', 'cache'].includes(command) ||
+    !input ||
+    (command === 'cache' && (!['export', 'import'].includes(input) || !positional[2])) ||
+    !outputFormats.includes(format) ||
+    (command === 'simulate' && !Object.keys(forks).length)
+  ) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  try {
+    if (networks) loadNetworksFile(networks);
+    const lookupCache = createLookupCache(createFileStore(cache));
+
+    if (command === 'cache') {
+      await runCacheCommand(lookupCache, input, positional[2]);
+    } else if (command === 'report') {
+      const { proposal, governor } = findStoredProposal(input.trim());
+      const actions = decodeStoredProposal(proposal, governor);
+      console.log(generateReport(proposal, governor, actions));
+      return severityExitCodes[getHighestSeverity(actions) ?? 'info'];
+    } else if (command === 'council') {
+      const payload = existsSync(input) ? readFileSync(input, 'utf8') : input;
+      const actions = decodeSecurityCouncilTransaction(payload, chainID);
+      console.log(formatActions(actions, format));
+      return severityExitCodes[getHighestSeverity(actions) ?? 'info'];
+    } else if (command === 'verify') {
+      const { actions } = await resolveInput(input.trim());
+      const results = await verifyActionContracts(actions, {
+        expected: loadExpectedCodeHashes(),
+        fetchSource: (address, chainID) =>
+          lookupCache.lookup(lookupKey('source', address, chainID), 'source', () =>
+            fetchVerifiedSource(address, chainID, process.env.ETHERSCAN_API_KEY)
+          ),
+      });
+      console.log(formatVerificationResults(results, format));
+      if (results.some(result => result.issues.length)) return 3;
+    } else if (command === 'simulate') {
+      const { actions, governor } = await resolveInput(input.trim());
+      const results = await simulateActions(actions, { governor, forks });
+      console.log(formatSimulationResults(results, format));
+      if (results.some(result => result.status === 'reverted')) return 3;
+    } else {
+      const { actions, crossCheck } = await resolveInput(input.trim());
+      console.log(formatActions(actions, format));
+      if (crossCheck?.status === 'mismatch') return severityExitCodes.critical;
+      return severityExitCodes[getHighestSeverity(actions) ?? 'info'];
+    }
+    return 0;
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : err}`);
+    return 1;
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(code => (process.exitCode = code));
+}
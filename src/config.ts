@@ -1,30 +1,334 @@
-interface ArbChain {
+export type ExplorerApiFlavour = 'etherscan' | 'blockscout';
+
+export interface Explorer {
+  url: string; // e.g. https://arbiscan.io
+  addressSuffix: string; // appended to address links, e.g. #code
+  api?: {
+    flavour: ExplorerApiFlavour;
+    url: string;
+  };
+}
+
+// Where logs, ABIs, sources and storage come from; see backends.ts. Each capability is served by
+// the first backend in a network's list that has it
+export type BackendConfig =
+  | { type: 'rpc'; url: string } // logs and storage; also the chain's provider
+  | { type: 'etherscan'; url: string; apiKey?: string } // etherscan v2 style, multichain via chainid
+  | { type: 'blockscout'; url: string } // etherscan-compatible /api, no key or storage
+  | { type: 'sourcify'; url?: string }; // ABIs and sources; defaults to sourcify.dev
+
+export type BackendType = BackendConfig['type'];
+
+export interface KnownToken {
+  symbol: string;
+  address: string;
+  decimals: number;
+}
+
+// Rollup contracts, deployed on the parent chain, and the token bridge's routers
+export interface BridgeContracts {
+  inbox: string;
+  outbox: string;
+  bridge: string;
+  rollup: string;
+  sequencerInbox: string;
+  l1GatewayRouter?: string; // on the parent chain; deposits tokens to this chain
+  l2GatewayRouter?: string; // on this chain; withdraws tokens to the parent chain
+}
+
+// 'core' governors reach L1 and the other chains through ArbSys and the L1 Timelock; the
+// others' calls run straight from their timelock on the governor's own chain
+export type GovernorType = 'core' | 'treasury' | 'custom';
+export type DecodeStrategy = 'core' | 'direct';
+
+// Unique across networks; names the governor's entry in data/indexer-state.json
+export type GovernorId = string;
+
+export interface NetworkGovernor {
+  id: GovernorId;
+  name: string;
+  type: GovernorType;
+  address: string;
+  timelock: string;
+  decode?: DecodeStrategy; // defaults to 'core' for core governors, 'direct' otherwise
+  startBlock?: number; // first block to index proposals from
+  dataFile?: string; // under data/, defaults to <id>-proposals.json
+}
+
+// A governor with its chain and defaults filled in
+export interface GovernorConfig extends Required<NetworkGovernor> {
+  chainID: number;
+}
+
+export interface Network {
+  chainID: number;
+  name: string;
+  parentChainID?: number; // unset for L1
+  rpcUrl?: string;
+  explorer: Explorer;
+  backends?: BackendConfig[]; // defaults to rpcUrl, then the explorer's API
+  upgradeExecutor?: string;
+  timelock?: string; // the L1 Timelock core proposals are scheduled in (L1 only)
+  governors: NetworkGovernor[];
+  bridge?: BridgeContracts;
+  tokens: KnownToken[];
+}
+
+// Entries from an overrides file are merged into the network with the same chainID
+export type NetworkOverride = Partial<Network> & { chainID: number };
+
+// An Arbitrum chain core proposals can reach from the L1 Timelock via a retryable
+export interface ArbChain {
   chainID: number;
   inboxAddress: string;
   upgradeExecutorAddress: string;
 }
 
 interface Config {
+  networks: Network[];
+  governors: GovernorConfig[];
+  coreGovernor: string;
+  coreGovernorVotingPeriod: number; // seconds
+  l2CoreTimelock: string;
+  l2CoreTimelockDelay: number; // seconds
+  arbSys: string;
+  outbox: string;
+  challengePeriod: number; // seconds before an L2->L1 message can be executed in the outbox
+  treasuryGovernor: string;
+  treasuryTimelock: string;
+  treasuryWallet: string;
   retryableMagic: string;
+  l1Timelock: string;
+  l1TimelockDelay: number; // seconds
   l1UpgradeExecutor: string;
   chains: ArbChain[];
-//   TODO explorer URL
-}
-
-export const config: Config = {
-  retryableMagic: '0xa723C008e76E379c55599D2E4d93879BeaFDa79C',
-  l1UpgradeExecutor: '0x3ffFbAdAF827559da092217e474760E2b2c3CeDd',
-  // l1explorerurl
-  chains: [
-    {
-      chainID: 42161,
-      inboxAddress: '0x4Dbd4fc535Ac27206064B68FfCf827b0A60BAB3f',
-      upgradeExecutorAddress: '0xCF57572261c7c2BCF21ffD220ea7d1a27D40A827',
+}
+
+const defaultNetworks: Network[] = [
+  {
+    chainID: 1,
+    name: 'Ethereum',
+    rpcUrl: 'https://ethereum-rpc.publicnode.com',
+    explorer: {
+      url: 'https://etherscan.io',
+      addressSuffix: '#code',
+      api: { flavour: 'etherscan', url: 'https://api.etherscan.io/v2/api' },
+    },
+    upgradeExecutor: '0x3ffFbAdAF827559da092217e474760E2b2c3CeDd',
+    timelock: '0xE6841D92B0C345144506576eC13ECf5103aC7f49',
+    governors: [],
+    tokens: [
+      { symbol: 'ARB', address: '0xB50721BCf8d664c30412Cfbc6cf7a15145234ad1', decimals: 18 },
+      { symbol: 'WETH', address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', decimals: 18 },
+      { symbol: 'USDC', address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', decimals: 6 },
+      { symbol: 'USDT', address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', decimals: 6 },
+    ],
+  },
+  {
+    chainID: 42161,
+    name: 'Arbitrum One',
+    parentChainID: 1,
+    rpcUrl: 'https://arb1.arbitrum.io/rpc',
+    explorer: {
+      url: 'https://arbiscan.io',
+      addressSuffix: '#code',
+      api: { flavour: 'etherscan', url: 'https://api.etherscan.io/v2/api' },
     },
-    {
-      chainID: 42170,
-      inboxAddress: '0xc4448b71118c9071Bcb9734A0EAc55D18A153949',
-      upgradeExecutorAddress: '0x86a02dD71363c440b21F4c0E5B2Ad01Ffe1A7482',
+    upgradeExecutor: '0xCF57572261c7c2BCF21ffD220ea7d1a27D40A827',
+    governors: [
+      {
+        id: 'core',
+        name: 'Core Governor',
+        type: 'core',
+        address: '0xf07DeD9dC292157749B6Fd268E37DF6EA38395B9',
+        timelock: '0x34d45e99f7D8c45ed05B5cA72D54bbD1fb3F98f0',
+        startBlock: 98424025,
+        dataFile: 'proposals.json',
+      },
+      {
+        id: 'treasury',
+        name: 'Treasury Governor',
+        type: 'treasury',
+        address: '0x789fC99093B09aD01C34DC7251D0C89ce743e5a4',
+        timelock: '0xbFc1FECa8B09A5c5D3EFfE7429eBE24b9c09EF58',
+        startBlock: 98424025,
+        dataFile: 'treasury-proposals.json',
+      },
+    ],
+    bridge: {
+      inbox: '0x4Dbd4fc535Ac27206064B68FfCf827b0A60BAB3f',
+      outbox: '0x0B9857ae2D4A3DBe74ffE1d7DF045bb7F96E4840',
+      bridge: '0x8315177aB297bA92A06054cE80a67Ed4DBd7ed3a',
+      rollup: '0x5eF0D09d1E6204141B4d37530808eD19f60FBa35',
+      sequencerInbox: '0x1c479675ad559DC151F6Ec7ed3FbF8ceE79582B6',
+      l1GatewayRouter: '0x72Ce9c846789fdB6fC1f34aC4AD25Dd9ef7031ef',
+      l2GatewayRouter: '0x5288c571Fd7aD117beA99bF60FE0846C4E84F933',
     },
-  ],
+    tokens: [
+      { symbol: 'ARB', address: '0x912CE59144191C1204E64559FE8253a0e49E6548', decimals: 18 },
+      { symbol: 'WETH', address: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1', decimals: 18 },
+      { symbol: 'USDC', address: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831', decimals: 6 },
+      { symbol: 'USDC.e', address: '0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8', decimals: 6 },
+      { symbol: 'USDT', address: '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9', decimals: 6 },
+    ],
+  },
+  {
+    chainID: 42170,
+    name: 'Arbitrum Nova',
+    parentChainID: 1,
+    rpcUrl: 'https://nova.arbitrum.io/rpc',
+    explorer: {
+      url: 'https://arbitrum-nova.blockscout.com',
+      addressSuffix: '?tab=contract',
+      api: { flavour: 'blockscout', url: 'https://arbitrum-nova.blockscout.com/api' },
+    },
+    upgradeExecutor: '0x86a02dD71363c440b21F4c0E5B2Ad01Ffe1A7482',
+    governors: [],
+    bridge: {
+      inbox: '0xc4448b71118c9071Bcb9734A0EAc55D18A153949',
+      outbox: '0xD4B80C3D7240325D18E645B49e6535A3Bf95cc58',
+      bridge: '0xC1Ebd02f738644983b6C4B2d440b8e77DdE276Bd',
+      rollup: '0xFb209827c58283535b744575e11953DCC4bEAD88',
+      sequencerInbox: '0x211E1c4c7f1bF5351Ac850Ed10FD68CFfCF6c21b',
+      l1GatewayRouter: '0xC840838Bc438d73C16c2f8b22D2Ce3669963cD48',
+      l2GatewayRouter: '0x21903d3F8176b1a0c17E953Cd896610Be9fFDFa8',
+    },
+    tokens: [
+      { symbol: 'ARB', address: '0xf823C3cD3CeBE0a1fA952ba88Dc9EEf8e0Bf46AD', decimals: 18 },
+    ],
+  },
+];
+
+const getNetworkOrThrow = (networks: Network[], chainID: number): Network => {
+  const network = networks.find(entry => entry.chainID === chainID);
+  if (!network) throw new Error(`Network ${chainID} missing from config`);
+  return network;
 };
+
+const getGovernorOfType = (network: Network, type: GovernorType): NetworkGovernor => {
+  const governor = network.governors.find(entry => entry.type === type);
+  if (!governor) throw new Error(`No ${type} governor on network ${network.chainID}`);
+  return governor;
+};
+
+const resolveGovernors = (networks: Network[]): GovernorConfig[] => {
+  const governors = networks.flatMap(network =>
+    network.governors.map(governor => ({
+      decode: governor.type === 'core' ? ('core' as const) : ('direct' as const),
+      startBlock: 0,
+      dataFile: `${governor.id}-proposals.json`,
+      ...governor,
+      chainID: network.chainID,
+    }))
+  );
+  for (const [i, governor] of governors.entries()) {
+    if (governors.findIndex(other => other.id === governor.id) !== i) {
+      throw new Error(`Governor ID ${governor.id} is used more than once`);
+    }
+  }
+  return governors;
+};
+
+// Everything the core decode path needs, resolved from the network registry
+const buildConfig = (networks: Network[]): Config => {
+  const l1 = getNetworkOrThrow(networks, 1);
+  const arbOne = getNetworkOrThrow(networks, 42161);
+  const coreGovernor = getGovernorOfType(arbOne, 'core');
+  const treasuryGovernor = getGovernorOfType(arbOne, 'treasury');
+
+  return {
+    networks,
+    governors: resolveGovernors(networks),
+    coreGovernor: coreGovernor.address,
+    coreGovernorVotingPeriod: 1209600,
+    l2CoreTimelock: coreGovernor.timelock,
+    l2CoreTimelockDelay: 259200,
+    arbSys: '0x0000000000000000000000000000000000000064',
+    outbox: arbOne.bridge?.outbox ?? '',
+    challengePeriod: 45818 * 12, // 45818 L1 blocks
+    treasuryGovernor: treasuryGovernor.address,
+    treasuryTimelock: treasuryGovernor.timelock,
+    treasuryWallet: '0xF3FC178157fb3c87548bAA86F9d24BA38E649B58',
+    retryableMagic: '0xa723C008e76E379c55599D2E4d93879BeaFDa79C',
+    l1Timelock: l1.timelock ?? '',
+    l1TimelockDelay: 259200,
+    l1UpgradeExecutor: l1.upgradeExecutor ?? '',
+    chains: networks
+      .filter(network => network.parentChainID === 1 && network.bridge && network.upgradeExecutor)
+      .map(network => ({
+        chainID: network.chainID,
+        inboxAddress: network.bridge!.inbox,
+        upgradeExecutorAddress: network.upgradeExecutor!,
+      })),
+  };
+};
+
+export const config: Config = buildConfig(defaultNetworks);
+
+// Merges overrides (e.g. from a JSON file) into the registry; call before decoding anything
+export function registerNetworks(overrides: NetworkOverride[]) {
+  const networks = [...config.networks];
+  for (const override of overrides) {
+    const index = networks.findIndex(network => network.chainID === override.chainID);
+    if (index === -1) {
+      if (!override.name || !override.explorer) {
+        throw new Error(`New network ${override.chainID} needs at least a name and explorer`);
+      }
+      networks.push({ governors: [], tokens: [], ...override } as Network);
+    } else {
+      networks[index] = { ...networks[index], ...override };
+    }
+  }
+  Object.assign(config, buildConfig(networks));
+}
+
+export function getNetwork(chainID: number): Network | undefined {
+  return config.networks.find(network => network.chainID === chainID);
+}
+
+export function getBackendConfigs(chainID: number): BackendConfig[] {
+  const network = getNetwork(chainID);
+  if (!network) return [];
+  if (network.backends) return network.backends;
+  const api = network.explorer.api;
+  return [
+    ...(network.rpcUrl ? [{ type: 'rpc' as const, url: network.rpcUrl }] : []),
+    ...(api ? [{ type: api.flavour, url: api.url }] : []),
+  ];
+}
+
+export function getGovernor(id: GovernorId): GovernorConfig {
+  const governor = config.governors.find(entry => entry.id === id);
+  if (!governor) throw new Error(`Governor ${id} missing from config`);
+  return governor;
+}
+
+export function findGovernorByAddress(
+  chainID: number,
+  address: string | null | undefined
+): GovernorConfig | undefined {
+  return config.governors.find(
+    governor =>
+      governor.chainID === chainID && governor.address.toLowerCase() === address?.toLowerCase()
+  );
+}
+
+export function getChainName(chainID: number): string {
+  return getNetwork(chainID)?.name || `Chain ${chainID}`;
+}
+
+export function getExplorerUrl(chainID: number, address: string): string {
+  const explorer = getNetwork(chainID)?.explorer ?? getNetworkOrThrow(config.networks, 1).explorer;
+  return `${explorer.url}/address/${address}${explorer.addressSuffix}`;
+}
+
+export function getTransactionUrl(chainID: number, txHash: string): string {
+  const explorer = getNetwork(chainID)?.explorer ?? getNetworkOrThrow(config.networks, 1).explorer;
+  return `${explorer.url}/tx/${txHash}`;
+}
+
+export function findToken(chainID: number, address: string): KnownToken | undefined {
+  return getNetwork(chainID)?.tokens.find(
+    token => token.address.toLowerCase() === address.toLowerCase()
+  );
+}
@@ -0,0 +1,110 @@
+import { AbiCoder, dataSlice, type FunctionFragment, type ParamType } from 'ethers';
+
+export interface DecodedParam {
+  name: string;
+  type: string; // canonical ABI type, e.g. uint256 or (address,bytes)[]
+  value: string; // display value; tuples and arrays are also broken out in components
+  components?: DecodedParam[]; // tuple members or array elements
+  call?: DecodedCall; // set when a bytes param is itself decodable calldata
+}
+
+export interface DecodedCall {
+  name: string;
+  signature: string; // e.g. upgradeAndCall(address,address,bytes)
+  selector: string;
+  params: DecodedParam[];
+}
+
+// Resolves calldata found inside a bytes param; address is the closest preceding address param
+export type NestedDecoder = (callData: string, address?: string) => DecodedCall | undefined;
+
+// Throws if callData doesn't decode against the fragment
+export function buildDecodedCall(
+  fragment: FunctionFragment,
+  callData: string,
+  decodeNested?: NestedDecoder
+): DecodedCall {
+  const decoded = AbiCoder.defaultAbiCoder().decode(fragment.inputs, dataSlice(callData, 4));
+
+  // Nested calldata is assumed to run against the closest preceding address param
+  // (relay, executeCall, upgradeAndCall, execTransaction all follow this shape)
+  let lastAddress: string | undefined;
+  const params = fragment.inputs.map((input, i) => {
+    const param = toParam(input, decoded[i], input.name || `arg${i}`, lastAddress, decodeNested);
+    if (input.type === 'address') lastAddress = decoded[i];
+    return param;
+  });
+
+  return {
+    name: fragment.name,
+    signature: fragment.format('sighash'),
+    selector: fragment.selector,
+    params,
+  };
+}
+
+const toParam = (
+  input: ParamType,
+  value: unknown,
+  name: string,
+  lastAddress: string | undefined,
+  decodeNested?: NestedDecoder
+): DecodedParam => {
+  const param: DecodedParam = { name, type: input.format('sighash'), value: formatValue(value) };
+
+  if (input.isTuple()) {
+    const values = value as unknown[];
+    param.components = input.components.map((component, i) =>
+      toParam(component, values[i], component.name || `${i}`, lastAddress, decodeNested)
+    );
+  } else if (input.isArray()) {
+    const values = value as unknown[];
+    param.components = values.map((element, i) =>
+      toParam(input.arrayChildren, element, `${i}`, lastAddress, decodeNested)
+    );
+  } else if (input.type === 'bytes' && decodeNested) {
+    param.call = decodeNested(value as string, lastAddress);
+  }
+
+  return param;
+};
+
+const formatValue = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(formatValue).join(', ')}]`;
+  return String(value);
+};
+
+export function formatDecodedCall(call: DecodedCall): string {
+  const params = call.params.map(
+    param => `${param.name}: ${param.call ? formatDecodedCall(param.call) : param.value}`
+  );
+  return `${call.name}(${params.join(', ')})`;
+}
+
+// Stable JSON for copying/diffing; every value is already a string so key order is the only concern
+export function decodedCallToJSON(call: DecodedCall): string {
+  return JSON.stringify(
+    call,
+    ['name', 'signature', 'selector', 'params', 'type', 'value', 'components', 'call'],
+    2
+  );
+}
+
+// Visits a call and all of its nested calls along with the address each one runs against,
+// taken as the closest preceding address param like buildDecodedCall does
+export function forEachCall(
+  call: DecodedCall,
+  target: string | undefined,
+  visit: (call: DecodedCall, target: string | undefined) => void
+) {
+  visit(call, target);
+
+  const visitParams = (params: DecodedParam[], lastAddress: string | undefined) => {
+    for (const param of params) {
+      if (param.call) forEachCall(param.call, lastAddress, visit);
+      if (param.components) visitParams(param.components, lastAddress);
+      if (param.type === 'address') lastAddress = param.value;
+    }
+  };
+  visitParams(call.params, undefined);
+}
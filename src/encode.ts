@@ -0,0 +1,209 @@
+import { AbiCoder, Interface, ZeroHash, id } from 'ethers';
+import { arbSysABI, inboxABI, l1TimelockABI, upgradeExecutorABI } from './abis';
+import { config } from './config';
+import {
+  decodeOperation,
+  decodeProposal,
+  type Action,
+  type L1TimelockCall,
+  type L1TimelockOperation,
+  type RetryableParams,
+} from './index';
+
+// One thing a core proposal should do, in the shape decode() reports it
+export interface ProposalActionInput {
+  chainID: number;
+  type?: Action['type']; // defaults to DELEGATECALL, i.e. an action contract
+  address: string; // the action contract, or the target of a CALL
+  callData: string;
+  value?: string; // wei the L1 Timelock sends: to the L1 UpgradeExecutor, or to fund the retryable
+  retryable?: Partial<RetryableParams>; // L2 only; unset fields are 0, i.e. a manually redeemed ticket
+  // L2 CALLs only: 'l1Timelock' sends the ticket straight to the target through the chain's Inbox
+  // instead of via its UpgradeExecutor, e.g. to move ETH on Nova
+  sender?: 'upgradeExecutor' | 'l1Timelock';
+  inbox?: InboxTicketParams; // required with sender 'l1Timelock'
+}
+
+// The rest of an Inbox ticket, which decode() doesn't report. There are no defaults for the fee
+// and refunds: the Inbox reverts (and with it the whole scheduled operation) when
+// maxSubmissionCost is below its submission fee
+export interface InboxTicketParams {
+  // createRetryableTicket (the default) needs the call's value to cover the whole ticket;
+  // unsafeCreateRetryableTicket takes what's missing from the L1 Timelock alias's L2 balance
+  method?: 'createRetryableTicket' | 'unsafeCreateRetryableTicket';
+  maxSubmissionCost: string; // wei; at least calculateRetryableSubmissionFee() when executed
+  excessFeeRefundAddress: string;
+  callValueRefundAddress: string;
+}
+
+export interface EncodeOptions {
+  description?: string; // the default salt is derived from it
+  salt?: string; // bytes32; defaults to keccak256(description), or zero without one
+  predecessor?: string; // bytes32 operation ID that has to execute first; defaults to none
+  delay?: number; // seconds; defaults to the configured L1 Timelock delay
+  batch?: boolean; // scheduleBatch even for a single call, which otherwise uses schedule
+}
+
+// Ready for Governor.propose, plus the L1 Timelock operation it schedules once executed
+export interface EncodedProposal {
+  targets: string[];
+  values: string[];
+  calldatas: string[];
+  operation: L1TimelockOperation;
+}
+
+const abiCoder = AbiCoder.defaultAbiCoder();
+
+const encodeUpgradeExecutorCall = (action: ProposalActionInput): string => {
+  const iface = new Interface(upgradeExecutorABI);
+  return (action.type ?? 'DELEGATECALL') === 'DELEGATECALL'
+    ? iface.encodeFunctionData('execute', [action.address, action.callData])
+    : iface.encodeFunctionData('executeCall', [action.address, action.callData]);
+};
+
+const toRetryableParams = (action: ProposalActionInput): RetryableParams => ({
+  l2CallValue: action.retryable?.l2CallValue ?? '0',
+  gasLimit: action.retryable?.gasLimit ?? '0',
+  maxFeePerGas: action.retryable?.maxFeePerGas ?? '0',
+});
+
+const encodeInboxTicket = (action: ProposalActionInput): string => {
+  const { inbox } = action;
+  if (!inbox?.maxSubmissionCost || !inbox.excessFeeRefundAddress || !inbox.callValueRefundAddress) {
+    throw new Error('Inbox calls need maxSubmissionCost and both refund addresses');
+  }
+  if (BigInt(inbox.maxSubmissionCost) === 0n) {
+    throw new Error("A maxSubmissionCost of 0 can't cover the Inbox's submission fee");
+  }
+
+  const method = inbox.method ?? 'createRetryableTicket';
+  const { l2CallValue, gasLimit, maxFeePerGas } = toRetryableParams(action);
+  // What createRetryableTicket checks the deposit against
+  const deposit =
+    BigInt(inbox.maxSubmissionCost) + BigInt(l2CallValue) + BigInt(gasLimit) * BigInt(maxFeePerGas);
+  if (method === 'createRetryableTicket' && BigInt(action.value ?? '0') < deposit) {
+    throw new Error(
+      `Inbox call value ${action.value ?? '0'} doesn't cover the ticket's ${deposit} wei ` +
+        '(maxSubmissionCost + l2CallValue + gasLimit * maxFeePerGas)'
+    );
+  }
+
+  return new Interface(inboxABI).encodeFunctionData(method, [
+    action.address,
+    l2CallValue,
+    inbox.maxSubmissionCost,
+    inbox.excessFeeRefundAddress,
+    inbox.callValueRefundAddress,
+    gasLimit,
+    maxFeePerGas,
+    action.callData,
+  ]);
+};
+
+// L1 actions go straight to the L1 UpgradeExecutor; L2 ones through the L1 Timelock's
+// retryable magic address, which turns the call into a retryable to the chain's UpgradeExecutor,
+// or for calls the L1 Timelock makes itself, to the chain's Inbox
+const toTimelockCall = (action: ProposalActionInput): L1TimelockCall => {
+  const value = action.value ?? '0';
+  const direct = action.sender === 'l1Timelock';
+  if (direct && (action.chainID === 1 || action.type !== 'CALL')) {
+    throw new Error('Only CALLs on an L2 can be sent straight through its Inbox');
+  }
+  if (action.chainID === 1) {
+    return { target: config.l1UpgradeExecutor, value, data: encodeUpgradeExecutorCall(action) };
+  }
+
+  const chain = config.chains.find(entry => entry.chainID === action.chainID);
+  if (!chain) throw new Error(`No UpgradeExecutor configured for chain ${action.chainID}`);
+  if (direct) {
+    return { target: chain.inboxAddress, value, data: encodeInboxTicket(action) };
+  }
+  const data = encodeUpgradeExecutorCall(action);
+  const { l2CallValue, gasLimit, maxFeePerGas } = toRetryableParams(action);
+  return {
+    target: config.retryableMagic,
+    value,
+    data: abiCoder.encode(
+      ['address', 'address', 'uint256', 'uint256', 'uint256', 'bytes'],
+      [chain.inboxAddress, chain.upgradeExecutorAddress, l2CallValue, gasLimit, maxFeePerGas, data]
+    ),
+  };
+};
+
+const sameRetryable = (decoded: RetryableParams | undefined, expected: RetryableParams) =>
+  !!decoded &&
+  BigInt(decoded.l2CallValue) === BigInt(expected.l2CallValue) &&
+  BigInt(decoded.gasLimit) === BigInt(expected.gasLimit) &&
+  BigInt(decoded.maxFeePerGas) === BigInt(expected.maxFeePerGas);
+
+const matchesInput = (decoded: Action, call: L1TimelockCall, input: ProposalActionInput): boolean =>
+  decoded.type === (input.type ?? 'DELEGATECALL') &&
+  decoded.chainID === input.chainID &&
+  decoded.address.toLowerCase() === input.address.toLowerCase() &&
+  decoded.callData.toLowerCase() === input.callData.toLowerCase() &&
+  (decoded.type !== 'CALL' || decoded.sender === (input.sender ?? 'upgradeExecutor')) &&
+  BigInt(call.value) === BigInt(input.value ?? '0') &&
+  (input.chainID === 1 || sameRetryable(decoded.retryable, toRetryableParams(input)));
+
+// The inverse of decode(): ArbSys.sendTxToL1 -> L1 Timelock schedule(Batch) -> UpgradeExecutor
+// or Inbox. Throws unless the result decodes back to exactly the given actions and operation
+export function encodeProposal(
+  actions: ProposalActionInput[],
+  options: EncodeOptions = {}
+): EncodedProposal {
+  if (!actions.length) throw new Error('A proposal needs at least one action');
+
+  const calls = actions.map(toTimelockCall);
+  const salt = options.salt ?? (options.description ? id(options.description) : ZeroHash);
+  const predecessor = options.predecessor ?? ZeroHash;
+  const delay = options.delay ?? config.l1TimelockDelay;
+  const timelock = new Interface(l1TimelockABI);
+  const schedule =
+    calls.length === 1 && !options.batch
+      ? timelock.encodeFunctionData('schedule', [
+          calls[0].target,
+          calls[0].value,
+          calls[0].data,
+          predecessor,
+          salt,
+          delay,
+        ])
+      : timelock.encodeFunctionData('scheduleBatch', [
+          calls.map(call => call.target),
+          calls.map(call => call.value),
+          calls.map(call => call.data),
+          predecessor,
+          salt,
+          delay,
+        ]);
+  const sendTxToL1 = new Interface(arbSysABI).encodeFunctionData('sendTxToL1', [
+    config.l1Timelock,
+    schedule,
+  ]);
+
+  const encoded = {
+    targets: [config.arbSys],
+    values: ['0'],
+    calldatas: [sendTxToL1],
+    operation: decodeOperation(sendTxToL1),
+  };
+
+  const { operation } = encoded;
+  if (
+    operation.salt.toLowerCase() !== salt.toLowerCase() ||
+    operation.predecessor.toLowerCase() !== predecessor.toLowerCase() ||
+    Number(operation.delay) !== delay
+  ) {
+    throw new Error(
+      "Encoded proposal doesn't decode back to the given salt, predecessor and delay"
+    );
+  }
+  const decoded = decodeProposal(encoded.targets, encoded.values, encoded.calldatas);
+  for (let i = 0; i < Math.max(actions.length, decoded.length); i++) {
+    const call = operation.calls[i];
+    if (!actions[i] || !decoded[i] || !call || !matchesInput(decoded[i], call, actions[i])) {
+      throw new Error(`Encoded proposal doesn't decode back to action ${i + 1}`);
+    }
+  }
+  return encoded;
+}
@@ -0,0 +1,279 @@
+import { Interface, MaxUint256, ZeroHash, formatEther, formatUnits, id } from 'ethers';
+import {
+  arbOwnerABI,
+  gatewayRouterABI,
+  hedgeyBatchPlannerABI,
+  sablierLockupLinearABI,
+} from './abis';
+import { config, findToken, getChainName, getNetwork } from './config';
+import { forEachCall, type DecodedCall } from './decodedCall';
+import type { Action } from './index';
+import { arbOwner, decodeKnownCall, getKnownContract } from './registry';
+import { formatTreasuryAmount, getCallFlows, type TreasuryFlow } from './treasury';
+
+export interface ExplainContext {
+  action: Action;
+  chainID: number;
+  target?: string; // the contract the call runs against, if known
+}
+
+// Matches calls by selector, optionally narrowed to one chain and/or contract
+export interface Explainer {
+  name: string;
+  selector: string;
+  chainID?: number;
+  address?: string;
+  explain: (call: DecodedCall, context: ExplainContext) => string | null;
+}
+
+export const selectorOf = (signature: string) => id(signature).slice(0, 10);
+
+const describeAddress = (chainID: number, address: string) => {
+  const known = getKnownContract(chainID, address);
+  return known ? `${known.name} (${address})` : address;
+};
+
+const formatTokenAmount = (chainID: number, token: string, amount: string) => {
+  const known = findToken(chainID, token);
+  return known
+    ? `${formatUnits(amount, known.decimals)} ${known.symbol}`
+    : `${amount} base units of token ${token}`;
+};
+
+const formatTimestamp = (seconds: string) => new Date(Number(seconds) * 1000).toISOString();
+
+// setL1PricePerUnit -> L1 price per unit
+const humanizeSetter = (name: string) =>
+  name
+    .replace(/^set/, '')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/\b([A-Z])([a-z])/g, (_, first: string, rest: string) => first.toLowerCase() + rest);
+
+const formatArbOwnerValue = (paramName: string, value: string) =>
+  /InWei$/.test(paramName) || paramName === 'pricePerUnit'
+    ? `${formatUnits(value, 'gwei')} gwei`
+    : value;
+
+const knownRoles = [
+  'EXECUTOR_ROLE',
+  'PROPOSER_ROLE',
+  'CANCELLER_ROLE',
+  'TIMELOCK_ADMIN_ROLE',
+  'ADMIN_ROLE',
+  'UPGRADER_ROLE',
+  'MINTER_ROLE',
+  'PAUSER_ROLE',
+];
+
+const describeRole = (role: string) => {
+  if (role === ZeroHash) return 'DEFAULT_ADMIN_ROLE';
+  return knownRoles.find(name => id(name) === role.toLowerCase()) ?? role;
+};
+
+const roleExplainer = (functionName: string, verb: string, preposition: string): Explainer => ({
+  name: `AccessControl ${functionName}`,
+  selector: selectorOf(`${functionName}(bytes32,address)`),
+  explain: ({ params: [role, account] }, { chainID, target }) =>
+    `${verb} ${describeRole(role.value)} ${preposition} ${account.value}` +
+    (target ? ` on ${describeAddress(chainID, target)}` : ''),
+});
+
+// One explainer per ArbOwner function; the setters all take a single value
+const arbOwnerExplainers = (): Explainer[] => {
+  const explainers: Explainer[] = [];
+  new Interface(arbOwnerABI).forEachFunction(({ name, selector }) => {
+    const explain = (call: DecodedCall, { chainID }: ExplainContext): string | null => {
+      const chain = getChainName(chainID);
+      const [first, second] = call.params;
+      switch (name) {
+        case 'addChainOwner':
+          return `Add ${first.value} as a chain owner of ${chain}`;
+        case 'removeChainOwner':
+          return `Remove ${first.value} as a chain owner of ${chain}`;
+        case 'scheduleArbOSUpgrade':
+          return `Schedule an ArbOS upgrade of ${chain} to version ${first.value} at ${formatTimestamp(second.value)}`;
+        case 'releaseL1PricerSurplusFunds':
+          return `Release up to ${formatEther(first.value)} ETH of L1 pricer surplus on ${chain}`;
+        default:
+          if (!name.startsWith('set') || call.params.length !== 1) return null;
+          return `Set ${chain}'s ${humanizeSetter(name)} to ${formatArbOwnerValue(first.name, first.value)}`;
+      }
+    };
+    explainers.push({ name: `ArbOwner ${name}`, selector, address: arbOwner, explain });
+  });
+  return explainers;
+};
+
+// One explainer per function of an ABI whose calls move funds, described from their flows
+const flowExplainers = (
+  name: string,
+  abi: string[],
+  describe: (flows: TreasuryFlow[], context: ExplainContext) => string
+): Explainer[] => {
+  const explainers: Explainer[] = [];
+  new Interface(abi).forEachFunction(fragment =>
+    explainers.push({
+      name: `${name} ${fragment.name}`,
+      selector: fragment.selector,
+      explain: (call, context) => {
+        const flows = getCallFlows(call, context.target, context.chainID);
+        return flows.length ? describe(flows, context) : null;
+      },
+    })
+  );
+  return explainers;
+};
+
+const sumFlows = (flows: TreasuryFlow[]): TreasuryFlow => ({
+  ...flows[0],
+  amount: flows.reduce((sum, flow) => sum + BigInt(flow.amount), 0n).toString(),
+});
+
+const buildBuiltinExplainers = (): Explainer[] => [
+  {
+    name: 'Treasury wallet token transfer',
+    selector: selectorOf('transfer(address,address,uint256)'),
+    chainID: 42161,
+    address: config.treasuryWallet,
+    explain: ({ params: [token, recipient, amount] }, { chainID }) =>
+      `Transfer ${formatTokenAmount(chainID, token.value, amount.value)} from the DAO treasury to ${recipient.value}`,
+  },
+  {
+    name: 'Treasury wallet ETH transfer',
+    selector: selectorOf('sendETH(address,uint256)'),
+    chainID: 42161,
+    address: config.treasuryWallet,
+    explain: ({ params: [recipient, amount] }) =>
+      `Send ${formatEther(amount.value)} ETH from the DAO treasury to ${recipient.value}`,
+  },
+  {
+    name: 'ERC-20 transfer',
+    selector: selectorOf('transfer(address,uint256)'),
+    explain: ({ params: [recipient, amount] }, { chainID, target }) => {
+      const token = target && findToken(chainID, target);
+      if (!token) return null;
+      return `Transfer ${formatUnits(amount.value, token.decimals)} ${token.symbol} to ${recipient.value}`;
+    },
+  },
+  {
+    name: 'ERC-20 approve',
+    selector: selectorOf('approve(address,uint256)'),
+    explain: ({ params: [spender, amount] }, { chainID, target }) => {
+      const token = target && findToken(chainID, target);
+      if (!token) return null;
+      const allowance =
+        BigInt(amount.value) === MaxUint256
+          ? `an unlimited amount of ${token.symbol}`
+          : `${formatUnits(amount.value, token.decimals)} ${token.symbol}`;
+      return `Approve ${describeAddress(chainID, spender.value)} to spend ${allowance}`;
+    },
+  },
+  {
+    name: 'Vesting wallet creation',
+    selector: selectorOf('createWallets(uint64,uint64,address[])'),
+    explain: ({ params: [start, duration, beneficiaries] }) => {
+      const recipients = beneficiaries.components?.map(beneficiary => beneficiary.value) ?? [];
+      const days = Math.round(Number(duration.value) / 86400);
+      return `Create ${recipients.length} vesting wallet(s) vesting over ${days} days from ${formatTimestamp(start.value)}, for ${recipients.join(', ')}`;
+    },
+  },
+  ...flowExplainers('Hedgey', hedgeyBatchPlannerABI, flows => {
+    const plans = flows.map(flow => `${formatTreasuryAmount(flow)} to ${flow.recipient}`);
+    return `Fund ${flows.length} Hedgey vesting plan(s) with ${formatTreasuryAmount(sumFlows(flows))}: ${plans.join(', ')}`;
+  }),
+  ...flowExplainers(
+    'Sablier',
+    sablierLockupLinearABI,
+    ([stream]) =>
+      `Create a Sablier stream of ${formatTreasuryAmount(stream)} to ${stream.recipient}`
+  ),
+  ...flowExplainers(
+    'Gateway router',
+    gatewayRouterABI,
+    ([bridge]) =>
+      `Bridge ${formatTreasuryAmount(bridge)} to ${bridge.recipient} on ${getChainName(bridge.destinationChainID!)}`
+  ),
+  {
+    name: 'ArbSys ETH withdrawal',
+    selector: selectorOf('withdrawEth(address)'),
+    address: config.arbSys,
+    explain: ({ params: [destination] }, { action, chainID }) => {
+      const parentChainID = getNetwork(chainID)?.parentChainID;
+      if (!parentChainID) return null;
+      return `Withdraw ${formatEther(action.value ?? '0')} ETH to ${destination.value} on ${getChainName(parentChainID)}`;
+    },
+  },
+  {
+    name: 'Governor relay',
+    selector: selectorOf('relay(address,uint256,bytes)'),
+    explain: ({ params: [target, value, data] }, { chainID, target: governor }) => {
+      const relayer = governor ? describeAddress(chainID, governor) : 'the governor';
+      const what = data.call ? `a ${data.call.name} call` : 'a call';
+      const withValue = BigInt(value.value) ? ` with ${formatEther(value.value)} ETH` : '';
+      return `Have ${relayer} relay ${what} to ${describeAddress(chainID, target.value)}${withValue}`;
+    },
+  },
+  roleExplainer('grantRole', 'Grant', 'to'),
+  roleExplainer('revokeRole', 'Revoke', 'from'),
+  roleExplainer('renounceRole', 'Renounce', 'for'),
+  ...arbOwnerExplainers(),
+];
+
+// Built on first use, and again after registerNetworks() (which replaces config.networks), so
+// they pick up addresses from networks registered after import without re-parsing ABIs per call
+let builtinExplainers: { networks: typeof config.networks; explainers: Explainer[] } | undefined;
+
+const getBuiltinExplainers = (): Explainer[] => {
+  if (builtinExplainers?.networks !== config.networks) {
+    builtinExplainers = { networks: config.networks, explainers: buildBuiltinExplainers() };
+  }
+  return builtinExplainers.explainers;
+};
+
+const customExplainers: Explainer[] = [];
+
+// Custom explainers are tried before the built-in ones
+export function registerExplainer(explainer: Explainer) {
+  customExplainers.push(explainer);
+}
+
+const matches = (explainer: Explainer, call: DecodedCall, context: ExplainContext) =>
+  explainer.selector === call.selector &&
+  (explainer.chainID === undefined || explainer.chainID === context.chainID) &&
+  (explainer.address === undefined ||
+    explainer.address.toLowerCase() === context.target?.toLowerCase());
+
+const explainCall = (call: DecodedCall, context: ExplainContext): string | null => {
+  for (const explainer of [...customExplainers, ...getBuiltinExplainers()]) {
+    if (!matches(explainer, call, context)) continue;
+    const explanation = explainer.explain(call, context);
+    if (explanation) return explanation;
+  }
+  return null;
+};
+
+// Plain English for an action, covering every call nested inside it that an explainer knows
+export function getExplanation(
+  action: Action,
+  call: DecodedCall | undefined = action.decodedCall
+): string | null {
+  // Simple ETH transfer: non-zero value and empty calldata
+  if (action.value && (!action.callData || action.callData === '0x')) {
+    return `Transfer ${formatEther(action.value)} ETH to ${action.address}`;
+  }
+
+  const decoded = call ?? decodeKnownCall(action.callData, action.address, action.chainID);
+  if (!decoded) return null;
+
+  const explanations: string[] = [];
+  const target = action.type === 'CALL' ? action.address : undefined;
+  forEachCall(decoded, target, (nested, nestedTarget) => {
+    const explanation = explainCall(nested, {
+      action,
+      chainID: action.chainID,
+      target: nestedTarget,
+    });
+    if (explanation) explanations.push(explanation);
+  });
+  return explanations.length ? explanations.join('; ') : null;
+}
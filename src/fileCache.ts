@@ -0,0 +1,44 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { emptySnapshot, type CacheEntry, type CacheSnapshot, type CacheStore } from './cache';
+
+export const readCacheSnapshot = (path: string): CacheSnapshot =>
+  existsSync(path) ? JSON.parse(readFileSync(path, 'utf8')) : emptySnapshot();
+
+// Keys sorted so the file diffs cleanly when it's committed alongside data/
+export const serializeCacheSnapshot = ({ entries }: CacheSnapshot): string =>
+  JSON.stringify(
+    {
+      version: 1,
+      entries: Object.fromEntries(
+        Object.keys(entries)
+          .sort()
+          .map(key => [key, entries[key]])
+      ),
+    },
+    null,
+    2
+  );
+
+// Node-only: a cache store kept in a JSON snapshot file, rewritten after every change
+export function createFileStore(path: string): CacheStore {
+  const snapshot = readCacheSnapshot(path);
+  const entries = new Map<string, CacheEntry>(Object.entries(snapshot.entries));
+  const save = () =>
+    writeFileSync(
+      path,
+      serializeCacheSnapshot({ version: 1, entries: Object.fromEntries(entries) })
+    );
+
+  return {
+    get: async key => entries.get(key),
+    set: async (key, entry) => {
+      entries.set(key, entry);
+      save();
+    },
+    delete: async key => {
+      entries.delete(key);
+      save();
+    },
+    entries: async () => [...entries],
+  };
+}
@@ -0,0 +1,133 @@
+import { formatEther } from 'ethers';
+import { getChainName } from './config';
+import { formatDecodedCall } from './decodedCall';
+import type { Action } from './index';
+import type { SimulationResult } from './simulate';
+import type { ActionContractVerification } from './verification';
+import { formatWarning } from './warnings';
+
+export type OutputFormat = 'table' | 'json' | 'markdown';
+
+export const outputFormats: OutputFormat[] = ['table', 'json', 'markdown'];
+
+const describeCall = (action: Action): string => {
+  if (action.decodedCall) return formatDecodedCall(action.decodedCall);
+  return action.callData || '0x';
+};
+
+const describeValue = (action: Action): string =>
+  action.value ? `${formatEther(action.value)} ETH` : '';
+
+export function formatActions(actions: Action[], format: OutputFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(actions, null, 2);
+    case 'markdown':
+      return formatActionsMarkdown(actions);
+    case 'table':
+      return formatActionsTable(actions);
+  }
+}
+
+function formatActionsTable(actions: Action[]): string {
+  const header = ['#', 'TYPE', 'CHAIN', 'ADDRESS', 'VALUE', 'CALL'];
+  const rows = actions.map((action, i) => [
+    `${i + 1}`,
+    action.type,
+    getChainName(action.chainID),
+    action.address,
+    describeValue(action),
+    describeCall(action),
+  ]);
+
+  // The call column is left unpadded since it's usually much wider than the terminal
+  const widths = header.map((_, col) => Math.max(...[header, ...rows].map(row => row[col].length)));
+  const lines = [header, ...rows].map(row =>
+    row.map((cell, col) => (col === row.length - 1 ? cell : cell.padEnd(widths[col]))).join('  ')
+  );
+
+  const warnings = actions.flatMap((action, i) =>
+    (action.warnings ?? []).map(warning => `Action #${i + 1}: ${formatWarning(warning)}`)
+  );
+  return [...lines, ...warnings].join('\n');
+}
+
+function formatActionsMarkdown(actions: Action[]): string {
+  const escape = (cell: string) => cell.replace(/\|/g, '\\|');
+  const lines = [
+    '| # | Type | Chain | Address | Value | Call |',
+    '| - | ---- | ----- | ------- | ----- | ---- |',
+    ...actions.map(
+      (action, i) =>
+        `| ${i + 1} | ${action.type} | ${getChainName(action.chainID)} | \`${action.address}\` | ${describeValue(action)} | \`${escape(describeCall(action))}\` |`
+    ),
+  ];
+
+  const warnings = actions.flatMap((action, i) =>
+    (action.warnings ?? []).map(warning => `- ⚠ Action #${i + 1}: ${formatWarning(warning)}`)
+  );
+  if (warnings.length) lines.push('', '**Warnings**', '', ...warnings);
+  return lines.join('\n');
+}
+
+export function formatSimulationResults(results: SimulationResult[], format: OutputFormat): string {
+  if (format === 'json') return JSON.stringify(results, null, 2);
+
+  const bullet = format === 'markdown' ? '- ' : '    ';
+  return results
+    .map(({ action, ...result }, i) => {
+      const heading = `#${i + 1} ${action.type} ${action.address} on ${getChainName(action.chainID)}: ${result.status.toUpperCase()}`;
+      const lines = [format === 'markdown' ? `**${heading}**` : heading];
+      if (result.from) lines.push(`${bullet}from ${result.from} (impersonated)`);
+      if (result.gasUsed) lines.push(`${bullet}gas used: ${result.gasUsed}`);
+      if (result.revertReason) lines.push(`${bullet}revert: ${result.revertReason}`);
+      if (result.status === 'success') lines.push(`${bullet}events: ${result.logs.length}`);
+      for (const log of result.logs) {
+        lines.push(`${bullet}  ${log.address} ${log.topics[0] ?? '(anonymous)'}`);
+      }
+      if (result.storageChanges) {
+        lines.push(`${bullet}storage slots changed: ${result.storageChanges.length}`);
+        for (const change of result.storageChanges) {
+          lines.push(
+            `${bullet}  ${change.address} ${change.slot}: ${change.before} -> ${change.after}`
+          );
+        }
+      } else if (result.status === 'success') {
+        lines.push(`${bullet}storage diff unavailable (node has no prestateTracer)`);
+      }
+      if (result.status === 'skipped') {
+        lines.push(`${bullet}no fork RPC given for chain ${action.chainID}`);
+      }
+      return lines.join('\n');
+    })
+    .join('\n\n');
+}
+
+export function formatVerificationResults(
+  results: ActionContractVerification[],
+  format: OutputFormat
+): string {
+  if (format === 'json') return JSON.stringify(results, null, 2);
+  if (!results.length) return 'No DELEGATECALL actions to verify';
+
+  const bullet = format === 'markdown' ? '- ' : '    ';
+  return results
+    .map(result => {
+      const heading = `${result.contractName ?? 'Unverified contract'} ${result.address} on ${getChainName(result.chainID)}`;
+      const lines = [format === 'markdown' ? `**${heading}**` : heading];
+      lines.push(`${bullet}verified: ${result.verified ? 'yes' : 'NO'}`);
+      lines.push(
+        `${bullet}code hash: ${result.codeHash ?? 'unavailable'} (${result.codeHashStatus})`
+      );
+      for (const immutable of result.immutables) {
+        lines.push(`${bullet}${immutable.name}: ${immutable.value}`);
+      }
+      for (const issue of result.issues) lines.push(`${bullet}WARNING: ${issue}`);
+      if (result.performBody) {
+        lines.push(format === 'markdown' ? '```solidity' : '', result.performBody);
+        if (format === 'markdown') lines.push('```');
+      }
+      return lines.join('\n');
+    })
+    .join('\n\n');
+}
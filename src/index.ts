@@ -1,6 +1,43 @@
-import { Interface, AbiCoder } from 'ethers';
-import { l1TimelockABI, upgradeExecutorABI, arbSysABI } from './abis';
-import { config } from './config';
+import { Interface, AbiCoder, dataSlice, getAddress, getBytes, hexlify, keccak256 } from 'ethers';
+import {
+  l1TimelockABI,
+  upgradeExecutorABI,
+  arbSysABI,
+  inboxABI,
+  gnosisSafeABI,
+  multiSendABI,
+} from './abis';
+import { config, type ArbChain } from './config';
+import { decodeKnownCall } from './registry';
+import type { DecodedCall } from './decodedCall';
+import { applyWarningRules, type ActionWarning } from './warnings';
+
+export {
+  buildDecodedCall,
+  formatDecodedCall,
+  decodedCallToJSON,
+  type DecodedCall,
+  type DecodedParam,
+} from './decodedCall';
+export { decodeKnownCall } from './registry';
+export {
+  formatTreasuryAmount,
+  getCallFlows,
+  getTreasuryFlows,
+  getTreasuryOutflows,
+  isOutflow,
+  isTreasuryAccount,
+  type TreasuryFlow,
+  type TreasuryFlowKind,
+  type TreasuryOutflow,
+} from './treasury';
+export {
+  applyWarningRules,
+  checkAction,
+  getHighestSeverity,
+  type ActionWarning,
+  type WarningSeverity,
+} from './warnings';
 
 const abiCoder = new AbiCoder();
 // ABI for TimelockController contract
@@ -18,29 +55,98 @@ const ActionType = {
 } as const
 type ActionType = typeof ActionType[keyof typeof ActionType]
 
+export interface RetryableParams {
+  l2CallValue: string; // wei
+  gasLimit: string;
+  maxFeePerGas: string; // wei
+}
+
 export interface Action {
   type: ActionType;
   address: string; // for DELEGATECALLs this is the action contract; for CALLs this is the target
   chainID: number;
   callData: string;
-  decodedCallData?: string;
+  decodedCall?: DecodedCall; // set when the target or selector is in the registry
   value?: string; // ETH value in wei, if non-zero
+  retryable?: RetryableParams; // set for actions delivered to L2 via a retryable ticket
+  sender?: CallSender; // CALLs only: where the call comes from
+  warnings?: ActionWarning[]; // decoder findings plus the rules in warnings.ts
+}
+
+// Who makes a CALL: the chain's UpgradeExecutor (executeCall), the L1 Timelock through an inbox
+// (aliased on L2), or the proposing governor's timelock on its own chain
+export type CallSender = 'upgradeExecutor' | 'l1Timelock' | 'timelock';
+
+// Intrinsic gas of an L2 tx; a retryable with less than this plus calldata cost can never execute
+const RETRYABLE_MIN_GAS_BASE = 21000n;
+
+// A single L1 Timelock call, as it appears in the timelock's CallScheduled event
+export interface L1TimelockCall {
+  target: string;
+  value: string; // wei
+  data: string;
+}
+
+// One contract a core proposal passes through on its way to execution
+export interface ExecutionHop {
+  name: string;
+  address: string;
+  chainID: number;
+  delay: number; // expected seconds spent at this hop before moving on
+  branch?: string; // the parallel branch it's on, by destination chain (and target for direct
+  // Inbox calls); unset for shared hops
+}
+
+export interface L1TimelockOperation {
+  id: string; // hashOperation / hashOperationBatch
+  predecessor: string;
+  salt: string;
+  delay: string; // seconds
+  calls: L1TimelockCall[];
+  actions: Action[];
+  executionPath: ExecutionHop[];
 }
 
-export function decode(calldata: string) {
+export function decode(calldata: string): Action[] {
+  return decodeOperation(calldata).actions;
+}
+
+// Like decode, but keeps the L1 Timelock operation metadata around the actions
+export function decodeOperation(calldata: string): L1TimelockOperation {
   const iface = new Interface(arbSysABI);
 
   const selector = calldata.slice(0, 10);
   const fragment = iface.getFunction(selector);
   if (fragment && fragment.name === 'sendTxToL1') {
     const decoded = iface.decodeFunctionData(fragment, calldata);
-    return decodeL1TimelockSchedule(decoded[1]);
+    return decodeL1TimelockOperation(decoded[1]);
   } else {
-    return decodeL1TimelockSchedule(calldata);
+    return decodeL1TimelockOperation(calldata);
   }
 }
 
-export function decodeL1TimelockSchedule(calldata: string) {
+// Decodes every target/value/calldata of a governor proposal, in order; chainID is the
+// governor's chain
+export function decodeProposal(
+  targets: string[],
+  values: string[],
+  calldatas: string[],
+  chainID = 42161
+): Action[] {
+  return targets.flatMap((target, i) => {
+    if (target.toLowerCase() === config.arbSys.toLowerCase()) {
+      return decode(calldatas[i]);
+    }
+    // Anything else (e.g. the treasury wallet) is a plain call executed on the governor's chain
+    return decodeTreasury([target], [values[i]], [calldatas[i]], chainID);
+  });
+}
+
+export function decodeL1TimelockSchedule(calldata: string): Action[] {
+  return decodeL1TimelockOperation(calldata).actions;
+}
+
+export function decodeL1TimelockOperation(calldata: string): L1TimelockOperation {
   const iface = new Interface(l1TimelockABI);
 
   const selector = calldata.slice(0, 10);
@@ -48,27 +154,138 @@ export function decodeL1TimelockSchedule(calldata: string) {
   if (!fragment) throw new Error('Could not find L1Timelock method');
 
   const decoded = iface.decodeFunctionData(fragment, calldata);
+  const [, , , predecessor, salt, delay] = decoded;
 
+  let calls: L1TimelockCall[];
+  let id: string;
+  // Operation ids are computed the same way as OpenZeppelin's TimelockController
   switch (fragment.name) {
     case 'scheduleBatch': {
-      return decoded[0].map((_: any, i: number) => {
-        return handleScheduleCall({
-          target: decoded[0][i],
-          payload: decoded[2][i],
-        });
-      });
+      const [targets, values, payloads] = decoded;
+      calls = targets.map((target: string, i: number) => ({
+        target,
+        value: values[i].toString(),
+        data: payloads[i],
+      }));
+      id = keccak256(
+        abiCoder.encode(
+          ['address[]', 'uint256[]', 'bytes[]', 'bytes32', 'bytes32'],
+          [targets, values, payloads, predecessor, salt]
+        )
+      );
+      break;
     }
     case 'schedule': {
-      return [
-        handleScheduleCall({
-          target: decoded[0],
-          payload: decoded[2],
-        }),
-      ];
+      const [target, value, data] = decoded;
+      calls = [{ target, value: value.toString(), data }];
+      id = keccak256(
+        abiCoder.encode(
+          ['address', 'uint256', 'bytes', 'bytes32', 'bytes32'],
+          [target, value, data, predecessor, salt]
+        )
+      );
+      break;
     }
     default:
       throw new Error('Unrecognized L1Timelock method name');
   }
+
+  const actions = applyWarningRules(
+    calls.map(call => handleScheduleCall({ target: call.target, payload: call.data }))
+  );
+  return {
+    id,
+    predecessor,
+    salt,
+    delay: delay.toString(),
+    calls,
+    actions,
+    executionPath: getExecutionPath(actions, Number(delay)),
+  };
+}
+
+// Core Governor -> L2 Timelock -> ArbSys -> Outbox -> L1 Timelock, then one branch per destination
+// chain's UpgradeExecutor and per target of a direct Inbox call
+export function getExecutionPath(
+  actions: Action[],
+  l1TimelockDelay = config.l1TimelockDelay
+): ExecutionHop[] {
+  const path: ExecutionHop[] = [
+    {
+      name: 'Core Governor',
+      address: config.coreGovernor,
+      chainID: 42161,
+      delay: config.coreGovernorVotingPeriod,
+    },
+    {
+      name: 'L2 Core Timelock',
+      address: config.l2CoreTimelock,
+      chainID: 42161,
+      delay: config.l2CoreTimelockDelay,
+    },
+    { name: 'ArbSys', address: config.arbSys, chainID: 42161, delay: 0 },
+    { name: 'Outbox', address: config.outbox, chainID: 1, delay: config.challengePeriod },
+    { name: 'L1 Timelock', address: config.l1Timelock, chainID: 1, delay: l1TimelockDelay },
+  ];
+
+  const branches = new Set<string>();
+  for (const action of actions) {
+    const { chainID } = action;
+    // Calls the L1 Timelock sends straight through an Inbox reach their target without going
+    // through the chain's UpgradeExecutor, each on a branch of its own
+    const direct =
+      chainID !== 1 && action.type === ActionType.CALL && action.sender === 'l1Timelock';
+    const branch = direct ? `${chainID}:${action.address.toLowerCase()}` : `${chainID}`;
+    if (branches.has(branch)) continue;
+    branches.add(branch);
+
+    if (chainID === 1) {
+      path.push({
+        name: 'UpgradeExecutor',
+        address: config.l1UpgradeExecutor,
+        chainID: 1,
+        delay: 0,
+        branch,
+      });
+      continue;
+    }
+    const chain = config.chains.find(entry => entry.chainID === chainID);
+    if (!chain) continue;
+    path.push(
+      {
+        name: !direct || action.retryable ? 'Inbox (retryable)' : 'Inbox',
+        address: chain.inboxAddress,
+        chainID: 1,
+        delay: 0,
+        branch,
+      },
+      direct
+        ? { name: 'Call target', address: action.address, chainID, delay: 0, branch }
+        : {
+            name: 'UpgradeExecutor',
+            address: chain.upgradeExecutorAddress,
+            chainID,
+            delay: 0,
+            branch,
+          }
+    );
+  }
+  return path;
+}
+
+// Expected seconds until every branch has executed: the shared hops run one after another, then
+// the per-chain branches run in parallel, so only the slowest one counts
+export function getExecutionPathDelay(path: ExecutionHop[]): number {
+  const branches = new Map<string, number>();
+  let shared = 0;
+  for (const hop of path) {
+    if (hop.branch === undefined) {
+      shared += hop.delay;
+    } else {
+      branches.set(hop.branch, (branches.get(hop.branch) ?? 0) + hop.delay);
+    }
+  }
+  return shared + Math.max(0, ...branches.values());
 }
 
 const handleScheduleCall = (l1timelockAction: L1TimelockAction) => {
@@ -78,7 +295,7 @@ const handleScheduleCall = (l1timelockAction: L1TimelockAction) => {
       //
     }
     case config.retryableMagic: {
-      const [inbox, targetAddr, _, __, ___, payload] = abiCoder.decode(
+      const [inbox, targetAddr, l2CallValue, maxGas, gasPriceBid, payload] = abiCoder.decode(
         ['address', 'address', 'uint256', 'uint256', 'uint256', 'bytes'],
         l1timelockAction.payload
       );
@@ -87,31 +304,286 @@ const handleScheduleCall = (l1timelockAction: L1TimelockAction) => {
       if (!chain) {
         throw new Error(`Unrecognized inbox ${inbox}`);
       }
-      return handleUpradeExecutorCall(targetAddr, payload, chain.chainID);
+      const retryable: RetryableParams = {
+        l2CallValue: l2CallValue.toString(),
+        gasLimit: maxGas.toString(),
+        maxFeePerGas: gasPriceBid.toString(),
+      };
+      return {
+        ...handleUpradeExecutorCall(targetAddr, payload, chain.chainID),
+        retryable,
+        ...withWarnings(getRetryableWarnings(retryable, payload)),
+      };
     }
 
-    default:
-      const isInboxAddress = config.chains.some(
-        chain => chain.inboxAddress === l1timelockAction.target
-      );
+    default: {
+      const chain = config.chains.find(entry => entry.inboxAddress === l1timelockAction.target);
 
-      if (isInboxAddress) {
-        throw new Error(`L1Timelock calls directly to inbox not currently supported`);
+      if (chain) {
+        return handleInboxCall(chain, l1timelockAction.payload);
       }
 
       throw new Error(`Unrecognized L1timelock target ${l1timelockAction.target}`);
+    }
   }
 };
 
-export function decodeTreasury(targets: string[], values: string[], calldatas: string[]): Action[] {
-  return targets.map((target, i) => ({
+// L2 message kinds accepted by Inbox.sendL2Message
+const L2MessageKind = {
+  UNSIGNED_TX: 0,
+  CONTRACT_TX: 1,
+} as const;
+
+const handleInboxCall = (chain: ArbChain, payload: string): Action => {
+  const iface = new Interface(inboxABI);
+
+  const selector = payload.slice(0, 10);
+  const fragment = iface.getFunction(selector);
+  if (!fragment) throw new Error(`Unrecognized Inbox method ${selector}`);
+
+  const decoded = iface.decodeFunctionData(fragment, payload);
+
+  switch (fragment.name) {
+    case 'createRetryableTicket':
+    case 'unsafeCreateRetryableTicket': {
+      const [to, l2CallValue, , , , gasLimit, maxFeePerGas, data] = decoded;
+      const retryable: RetryableParams = {
+        l2CallValue: l2CallValue.toString(),
+        gasLimit: gasLimit.toString(),
+        maxFeePerGas: maxFeePerGas.toString(),
+      };
+      return {
+        ...handleL2Call(chain, to, data, l2CallValue),
+        retryable,
+        ...withWarnings(getRetryableWarnings(retryable, data)),
+      };
+    }
+    case 'sendContractTransaction': {
+      const [, , to, value, data] = decoded;
+      return handleL2Call(chain, to, data, value);
+    }
+    case 'sendUnsignedTransaction': {
+      const [, , , to, value, data] = decoded;
+      return handleL2Call(chain, to, data, value);
+    }
+    case 'sendL2Message': {
+      const message: string = decoded[0];
+      const kind = getBytes(message)[0];
+      if (kind !== L2MessageKind.UNSIGNED_TX && kind !== L2MessageKind.CONTRACT_TX) {
+        throw new Error(`Unsupported L2 message kind ${kind}`);
+      }
+      // Messages are abi.encodePacked(kind, gasLimit, maxFeePerGas, [nonce,] to, value, data)
+      const toOffset = kind === L2MessageKind.UNSIGNED_TX ? 97 : 65;
+      const to = getAddress(dataSlice(message, toOffset + 12, toOffset + 32));
+      const value = BigInt(dataSlice(message, toOffset + 32, toOffset + 64));
+      const data = dataSlice(message, toOffset + 64);
+      return handleL2Call(chain, to, data, value);
+    }
+
+    default:
+      throw new Error(`Unrecognized Inbox method ${fragment.name}`);
+  }
+};
+
+// An L2 call coming out of an inbox message: either via the chain's UpgradeExecutor or a plain call
+const handleL2Call = (chain: ArbChain, to: string, data: string, value: bigint): Action => {
+  if (to === chain.upgradeExecutorAddress) {
+    return handleUpradeExecutorCall(to, data, chain.chainID);
+  }
+  return {
     type: ActionType.CALL,
-    address: target,
-    chainID: 42161,
-    callData: calldatas[i],
-    decodedCallData: '',
-    value: values[i] !== '0' ? values[i] : undefined,
-  }));
+    address: to,
+    callData: data,
+    chainID: chain.chainID,
+    value: value !== 0n ? value.toString() : undefined,
+    sender: 'l1Timelock',
+  };
+};
+
+// Clean actions leave warnings unset rather than carrying an empty list
+const withWarnings = (warnings: ActionWarning[]) => (warnings.length ? { warnings } : {});
+
+const getRetryableWarnings = (retryable: RetryableParams, payload: string): ActionWarning[] => {
+  const warnings: ActionWarning[] = [];
+  if (BigInt(retryable.l2CallValue) !== 0n) {
+    warnings.push({
+      code: 'retryable-l2-call-value',
+      severity: 'warning',
+      message: `Retryable sends a non-zero L2 call value (${retryable.l2CallValue} wei)`,
+    });
+  }
+
+  // A gas limit of 0 means no auto-redeem: the ticket is redeemed manually on L2
+  const gasLimit = BigInt(retryable.gasLimit);
+  if (gasLimit !== 0n) {
+    const bytes = getBytes(payload);
+    const zeroBytes = bytes.filter(b => b === 0).length;
+    const calldataGas = BigInt(zeroBytes * 4 + (bytes.length - zeroBytes) * 16);
+    const minGas = RETRYABLE_MIN_GAS_BASE + calldataGas;
+    if (gasLimit < minGas) {
+      warnings.push({
+        code: 'retryable-gas-limit',
+        severity: 'critical',
+        message: `Retryable gas limit ${gasLimit} is below the ${minGas} needed just for the L2 payload`,
+      });
+    }
+  }
+  return warnings;
+};
+
+// Plain calls made by a governor's timelock on its own chain; getTreasuryFlows() reads the funds
+// each one moves
+export function decodeTreasury(
+  targets: string[],
+  values: string[],
+  calldatas: string[],
+  chainID = 42161
+): Action[] {
+  return applyWarningRules(
+    targets.map((target, i) => ({
+      type: ActionType.CALL,
+      address: target,
+      chainID,
+      callData: calldatas[i],
+      decodedCall: decodeKnownCall(calldatas[i], target, chainID),
+      value: values[i] !== '0' ? values[i] : undefined,
+      sender: 'timelock' as const,
+    }))
+  );
+}
+
+// A call made by a Safe: the execTransaction arguments, or one entry of a multiSend batch
+export interface SafeTransaction {
+  to: string;
+  value: string; // wei
+  data: string;
+  operation: number; // 0 = CALL, 1 = DELEGATECALL
+}
+
+const SafeOperation = {
+  CALL: 0,
+  DELEGATECALL: 1,
+} as const;
+
+// Safe Transaction Service entries ({ to, value, data, operation }), Transaction Builder
+// exports ({ chainId, transactions: [...] }) or a plain array of either
+const parseSafeTransactionJSON = (json: string): { chainID?: number; txs: SafeTransaction[] } => {
+  type SafeTransactionJSON = Partial<SafeTransaction> & { data?: string | null };
+  const parsed = JSON.parse(json);
+  const entries: SafeTransactionJSON[] = Array.isArray(parsed)
+    ? parsed
+    : (parsed.transactions ?? [parsed]);
+  const chainID = parsed.chainId ?? parsed.chainID;
+
+  const txs = entries.map((entry, i) => {
+    if (!entry.to) throw new Error(`Safe transaction ${i} has no "to"`);
+    if (entry.data === null) {
+      throw new Error(
+        `Safe transaction ${i} has no raw data (contractMethod inputs aren't supported)`
+      );
+    }
+    return {
+      to: getAddress(entry.to),
+      value: String(entry.value ?? '0'),
+      data: entry.data ?? '0x',
+      operation: Number(entry.operation ?? SafeOperation.CALL),
+    };
+  });
+  return { chainID: chainID !== undefined ? Number(chainID) : undefined, txs };
+};
+
+export function unpackMultiSend(transactions: string): SafeTransaction[] {
+  const bytes = getBytes(transactions);
+  const txs: SafeTransaction[] = [];
+  for (let i = 0; i < bytes.length; ) {
+    const dataLength = Number(BigInt(hexlify(bytes.slice(i + 53, i + 85))));
+    txs.push({
+      operation: bytes[i],
+      to: getAddress(hexlify(bytes.slice(i + 1, i + 21))),
+      value: BigInt(hexlify(bytes.slice(i + 21, i + 53))).toString(),
+      data: hexlify(bytes.slice(i + 85, i + 85 + dataLength)),
+    });
+    i += 85 + dataLength;
+  }
+  return txs;
+}
+
+const getUpgradeExecutorAddress = (chainID: number): string | undefined =>
+  chainID === 1
+    ? config.l1UpgradeExecutor
+    : config.chains.find(entry => entry.chainID === chainID)?.upgradeExecutorAddress;
+
+const handleSafeCall = (tx: SafeTransaction, chainID: number): Action[] => {
+  const multiSend = new Interface(multiSendABI);
+  if (tx.data.slice(0, 10) === multiSend.getFunction('multiSend')!.selector) {
+    const [transactions] = multiSend.decodeFunctionData('multiSend', tx.data);
+    return unpackMultiSend(transactions).flatMap(inner => handleSafeCall(inner, chainID));
+  }
+
+  const upgradeExecutor = getUpgradeExecutorAddress(chainID);
+  if (
+    tx.operation === SafeOperation.CALL &&
+    upgradeExecutor &&
+    tx.to.toLowerCase() === upgradeExecutor.toLowerCase()
+  ) {
+    return [handleUpradeExecutorCall(tx.to, tx.data, chainID)];
+  }
+
+  return [
+    {
+      type: tx.operation === SafeOperation.DELEGATECALL ? ActionType.DELEGATECALL : ActionType.CALL,
+      address: tx.to,
+      chainID,
+      callData: tx.data,
+      decodedCall: decodeKnownCall(tx.data, tx.to, chainID),
+      value: tx.value !== '0' ? tx.value : undefined,
+    },
+  ];
+};
+
+// A call to a chain's UpgradeExecutor, e.g. the L2 side of a core proposal's retryable
+export function decodeUpgradeExecutorCall(payload: string, chainID: number): Action[] {
+  const upgradeExecutor = getUpgradeExecutorAddress(chainID);
+  if (!upgradeExecutor) throw new Error(`No UpgradeExecutor configured for chain ${chainID}`);
+  return applyWarningRules([handleUpradeExecutorCall(upgradeExecutor, payload, chainID)]);
+}
+
+// True for inputs decodeSecurityCouncilTransaction understands (as opposed to governor calldata)
+export function isSafeTransactionPayload(input: string): boolean {
+  const trimmed = input.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) return true;
+  const selector = trimmed.slice(0, 10).toLowerCase();
+  return (
+    selector === new Interface(gnosisSafeABI).getFunction('execTransaction')!.selector ||
+    selector === new Interface(multiSendABI).getFunction('multiSend')!.selector
+  );
+}
+
+// Security Council actions skip the governor path: the council Safe calls the UpgradeExecutors
+// directly. Accepts execTransaction or multiSend calldata, or Safe transaction JSON (which
+// may carry its own chainId)
+export function decodeSecurityCouncilTransaction(input: string, chainID?: number): Action[] {
+  const trimmed = input.trim();
+  let txs: SafeTransaction[];
+
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    const parsed = parseSafeTransactionJSON(trimmed);
+    txs = parsed.txs;
+    chainID = parsed.chainID ?? chainID;
+  } else {
+    const safe = new Interface(gnosisSafeABI);
+    const fragment = safe.getFunction(trimmed.slice(0, 10));
+    if (fragment?.name === 'execTransaction') {
+      const [to, value, data, operation] = safe.decodeFunctionData(fragment, trimmed);
+      txs = [{ to, value: value.toString(), data, operation: Number(operation) }];
+    } else {
+      // Bare multiSend calldata is handled as a delegatecall to MultiSend by handleSafeCall
+      txs = [{ to: '', value: '0', data: trimmed, operation: SafeOperation.DELEGATECALL }];
+    }
+  }
+
+  if (chainID === undefined) throw new Error('Security Council transactions need a chainID');
+  return applyWarningRules(txs.flatMap(tx => handleSafeCall(tx, chainID!)));
 }
 
 const handleUpradeExecutorCall = (_target: string, payload: string, chainID: number): Action => {
@@ -126,24 +598,29 @@ const handleUpradeExecutorCall = (_target: string, payload: string, chainID: num
       const decoded = iface.decodeFunctionData(fragment, payload);
       const [actionContractAddress, actionPayload] = decoded;
 
+      const decodedCall = decodeKnownCall(actionPayload, actionContractAddress, chainID);
+
       return {
         type: ActionType.DELEGATECALL,
         address: actionContractAddress,
         callData: actionPayload,
         chainID,
-        decodedCallData: actionPayload === '0xb147f40c' ? 'perform()' : '', // TODO: handle more cases
+        decodedCall,
       };
     }
     case 'executeCall': {
       const decoded = iface.decodeFunctionData(fragment, payload);
       const [address, callData] = decoded;
 
+      const decodedCall = decodeKnownCall(callData, address, chainID);
+
       return {
         type: ActionType.CALL,
         address,
         callData,
         chainID,
-        decodedCallData: '', // TODO
+        decodedCall,
+        sender: 'upgradeExecutor',
       };
     }
 
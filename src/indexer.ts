@@ -0,0 +1,221 @@
+import { Interface, type TopicFilter } from 'ethers';
+import { governorABI } from './abis';
+import type { LogEntry, LogSource } from './backends';
+import type { GovernorConfig, GovernorId } from './config';
+import type { StoredProposal } from './proposals';
+
+export interface BlockRange {
+  fromBlock: number;
+  toBlock: number;
+}
+
+// Kept in data/indexer-state.json next to the proposals it describes
+export interface IndexerState {
+  lastIndexedBlock: Record<GovernorId, number>;
+  lifecycleBlocks?: Record<string, number>; // lifecycle event sources, see LifecycleCursors
+}
+
+export interface GovernorIndex {
+  proposals: StoredProposal[];
+  lastIndexedBlock: number;
+}
+
+export interface LogQueryOptions {
+  chunkSize?: number; // blocks per eth_getLogs to start with
+  minChunkSize?: number;
+  maxChunkSize?: number;
+  retries?: number; // per chunk, for failures that aren't about the range
+  capResetAfter?: number; // successful calls before a rejected size may be tried again
+  onProgress?: (range: BlockRange, logCount: number) => void;
+  onLogs?: (logs: LogEntry[], range: BlockRange) => void | Promise<void>; // awaited per chunk
+}
+
+export interface GovernorIndexOptions extends LogQueryOptions {
+  onCheckpoint?: (index: GovernorIndex) => void | Promise<void>; // awaited per chunk, so far
+}
+
+const defaultLogQueryOptions = {
+  chunkSize: 5_000_000, // Arbitrum's public RPC range limit
+  minChunkSize: 1_000,
+  maxChunkSize: 5_000_000,
+  retries: 3,
+  capResetAfter: 100,
+};
+
+// Where indexing resumes for a governor the state has no entry for yet
+export const getLastIndexedBlock = (state: IndexerState, governor: GovernorConfig): number =>
+  state.lastIndexedBlock[governor.id] ?? governor.startBlock - 1;
+
+// RPCs word "too many blocks/results" differently; these cover the common providers
+const isRangeError = (err: unknown): boolean => {
+  const message = err instanceof Error ? err.message : String(err);
+  return /block range|range (is )?too (large|wide|big)|too many (blocks|results|logs)|limit exceeded|exceeds? (the )?(max|limit)|query returned more than|response size/i.test(
+    message
+  );
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// eth_getLogs over a range of any size: chunks shrink when the backend rejects the range and grow
+// back after successes, stopping at the last size that worked below the smallest rejected one.
+// That cap is lifted after a long run of successes; other failures are retried with backoff
+export async function getLogsInRange(
+  source: LogSource,
+  filter: { address: string; topics?: TopicFilter },
+  { fromBlock, toBlock }: BlockRange,
+  options: LogQueryOptions = {}
+): Promise<LogEntry[]> {
+  const { minChunkSize, maxChunkSize, retries, capResetAfter } = {
+    ...defaultLogQueryOptions,
+    ...options,
+  };
+  let chunkSize = Math.min(
+    options.chunkSize ?? defaultLogQueryOptions.chunkSize,
+    maxChunkSize,
+    toBlock - fromBlock + 1
+  );
+  const logs: LogEntry[] = [];
+  let failures = 0;
+  let rejectedSize = Infinity; // smallest chunk size the backend rejected
+  let successes = 0; // since the last rejection
+
+  for (let from = fromBlock; from <= toBlock; ) {
+    const to = Math.min(from + chunkSize - 1, toBlock);
+    let chunk: LogEntry[];
+    try {
+      chunk = await source.getLogs({ ...filter, fromBlock: from, toBlock: to });
+    } catch (err) {
+      if (isRangeError(err) && chunkSize > minChunkSize) {
+        rejectedSize = Math.min(rejectedSize, chunkSize);
+        successes = 0;
+        chunkSize = Math.max(Math.floor(chunkSize / 2), minChunkSize);
+        continue;
+      }
+      if (++failures > retries) throw err;
+      await sleep(1000 * 2 ** (failures - 1));
+      continue;
+    }
+
+    logs.push(...chunk);
+    options.onProgress?.({ fromBlock: from, toBlock: to }, chunk.length);
+    await options.onLogs?.(chunk, { fromBlock: from, toBlock: to });
+    from = to + 1;
+    failures = 0;
+    if (++successes >= capResetAfter) rejectedSize = Infinity;
+    const grown = Math.min(chunkSize * 2, maxChunkSize);
+    if (grown < rejectedSize) chunkSize = grown;
+  }
+  return logs;
+}
+
+export function parseProposalCreated(log: LogEntry): StoredProposal {
+  const parsed = new Interface(governorABI).parseLog(log);
+  if (parsed?.name !== 'ProposalCreated')
+    throw new Error(`Not a ProposalCreated log: ${log.transactionHash}`);
+  const [
+    proposalId,
+    proposer,
+    targets,
+    values,
+    signatures,
+    calldatas,
+    startBlock,
+    endBlock,
+    description,
+  ] = parsed.args;
+  return {
+    proposalId: proposalId.toString(),
+    proposer,
+    targets: [...targets],
+    values: values.map((value: bigint) => value.toString()),
+    signatures: [...signatures],
+    calldatas: [...calldatas],
+    startBlock: Number(startBlock),
+    endBlock: Number(endBlock),
+    description,
+    blockNumber: log.blockNumber,
+    transactionHash: log.transactionHash,
+  };
+}
+
+export async function fetchProposalsCreated(
+  source: LogSource,
+  governor: string,
+  range: BlockRange,
+  options?: LogQueryOptions
+): Promise<StoredProposal[]> {
+  const topic = new Interface(governorABI).getEvent('ProposalCreated')!.topicHash;
+  const logs = await getLogsInRange(source, { address: governor, topics: [topic] }, range, options);
+  return logs.map(parseProposalCreated);
+}
+
+// Deduplicated by proposal ID (first seen wins) and ordered by block, then ID, so rewriting
+// the same data produces the same file
+export function mergeProposals(
+  existing: StoredProposal[],
+  incoming: StoredProposal[]
+): StoredProposal[] {
+  const byId = new Map<string, StoredProposal>();
+  for (const proposal of [...existing, ...incoming]) {
+    if (!byId.has(proposal.proposalId)) byId.set(proposal.proposalId, proposal);
+  }
+  return [...byId.values()].sort(
+    (a, b) =>
+      a.blockNumber - b.blockNumber ||
+      (a.proposalId < b.proposalId ? -1 : a.proposalId > b.proposalId ? 1 : 0)
+  );
+}
+
+// Fetches only the blocks after the index's last indexed block. onCheckpoint gets the index up
+// to the end of each chunk, so what's been fetched can be saved before the range is done
+export async function updateGovernorIndex(
+  source: LogSource,
+  governor: string,
+  index: GovernorIndex,
+  latestBlock: number,
+  options: GovernorIndexOptions = {}
+): Promise<GovernorIndex> {
+  if (index.lastIndexedBlock >= latestBlock) return index;
+  let checkpoint = index;
+  const incoming = await fetchProposalsCreated(
+    source,
+    governor,
+    { fromBlock: index.lastIndexedBlock + 1, toBlock: latestBlock },
+    {
+      ...options,
+      onLogs: async (logs, range) => {
+        await options.onLogs?.(logs, range);
+        checkpoint = {
+          proposals: mergeProposals(checkpoint.proposals, logs.map(parseProposalCreated)),
+          lastIndexedBlock: range.toBlock,
+        };
+        await options.onCheckpoint?.(checkpoint);
+      },
+    }
+  );
+  return { proposals: mergeProposals(index.proposals, incoming), lastIndexedBlock: latestBlock };
+}
+
+export const serializeProposals = (proposals: StoredProposal[]): string =>
+  JSON.stringify(mergeProposals(proposals, []), null, 2);
+
+const sortKeys = <T>(record: Record<string, T>): Record<string, T> =>
+  Object.fromEntries(
+    Object.keys(record)
+      .sort()
+      .map(key => [key, record[key]])
+  );
+
+// Keys written in a fixed order whatever order the state was built in
+export const serializeIndexerState = ({
+  lastIndexedBlock,
+  lifecycleBlocks,
+}: IndexerState): string =>
+  JSON.stringify(
+    {
+      lastIndexedBlock: sortKeys(lastIndexedBlock),
+      ...(lifecycleBlocks ? { lifecycleBlocks: sortKeys(lifecycleBlocks) } : {}),
+    },
+    null,
+    2
+  );
@@ -0,0 +1,619 @@
+import { Contract, Interface, type Provider } from 'ethers';
+import { arbSysABI, governorABI, inboxABI, l1TimelockABI, upgradeExecutorABI } from './abis';
+import type { LogEntry, LogSource } from './backends';
+import { config, getGovernor, type GovernorConfig, type GovernorId } from './config';
+import { decodeOperation, type L1TimelockOperation } from './index';
+import { getLogsInRange, type BlockRange, type LogQueryOptions } from './indexer';
+import type { StoredProposal } from './proposals';
+
+export const L1_TIMELOCK_START_BLOCK = 16_600_000; // before the L1 Timelock was deployed
+
+export interface ChainEvent {
+  chainID: number;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export type GovernorState =
+  | 'Pending'
+  | 'Active'
+  | 'Canceled'
+  | 'Defeated'
+  | 'Succeeded'
+  | 'Queued'
+  | 'Expired'
+  | 'Executed';
+
+// In the order of the governor's ProposalState enum
+export const governorStates: GovernorState[] = [
+  'Pending',
+  'Active',
+  'Canceled',
+  'Defeated',
+  'Succeeded',
+  'Queued',
+  'Expired',
+  'Executed',
+];
+
+export interface VoteTotals {
+  for: string;
+  against: string;
+  abstain: string;
+}
+
+export interface L1OperationLifecycle {
+  id: string;
+  scheduled?: ChainEvent;
+  executed?: ChainEvent;
+}
+
+// One L2 action of a core proposal: the retryable the L1 Timelock created for it, and the
+// redemption that ran it through the chain's UpgradeExecutor
+export interface RetryableLifecycle {
+  chainID: number;
+  address: string; // action contract or call target
+  created?: ChainEvent & { messageNum: string };
+  redeemed?: ChainEvent;
+}
+
+export interface ProposalLifecycle {
+  proposalId: string;
+  governor: GovernorId;
+  state?: GovernorState; // governor.state() when indexed
+  votes?: VoteTotals; // summed from VoteCast logs
+  created: ChainEvent;
+  queued?: ChainEvent & { eta: number };
+  executed?: ChainEvent;
+  canceled?: ChainEvent;
+  l2ToL1Messages: (ChainEvent & { position: string })[]; // core only, sent on L2 execution
+  l1Operations: L1OperationLifecycle[];
+  retryables: RetryableLifecycle[];
+}
+
+export interface UpgradeExecution extends ChainEvent {
+  type: 'CALL' | 'DELEGATECALL';
+  address: string;
+  data: string;
+}
+
+// Everything the indexer saw, keyed for joining back onto proposals
+export interface LifecycleEvents {
+  queued: Record<string, ChainEvent & { eta: number }>; // by proposal ID
+  executed: Record<string, ChainEvent>;
+  canceled: Record<string, ChainEvent>;
+  l2ToL1Messages: Record<string, (ChainEvent & { position: string })[]>;
+  l1Scheduled: Record<string, ChainEvent>; // by operation ID
+  l1Executed: Record<string, ChainEvent>;
+  retryablesCreated: Record<string, (ChainEvent & { messageNum: string })[]>; // by L1 tx hash
+  upgradeExecutions: UpgradeExecution[];
+  votes: Record<string, VoteTotals>; // summed from VoteCast logs, by proposal ID
+}
+
+// Last block each event source has been indexed to, keyed `${chainID}:${source}` where the source
+// is a governor ID, l1Timelock or upgradeExecutor
+export type LifecycleCursors = Record<string, number>;
+
+export interface LifecycleSources {
+  getProvider: (chainID: number) => Provider | undefined;
+  getLogSource?: (chainID: number) => LogSource | undefined; // defaults to the provider
+  ranges: Record<number, BlockRange>; // chains without a range aren't indexed
+  logOptions?: LogQueryOptions;
+  cursors?: LifecycleCursors; // each source resumes after its cursor
+  // Called as each chunk of logs is folded into the events, so progress can be saved
+  onCheckpoint?: (events: LifecycleEvents, cursors: LifecycleCursors) => void | Promise<void>;
+  onStateError?: (proposalId: string, error: unknown) => void; // the earlier state is kept
+}
+
+export const emptyLifecycleEvents = (): LifecycleEvents => ({
+  queued: {},
+  executed: {},
+  canceled: {},
+  l2ToL1Messages: {},
+  l1Scheduled: {},
+  l1Executed: {},
+  retryablesCreated: {},
+  upgradeExecutions: [],
+  votes: {},
+});
+
+const toChainEvent = (chainID: number, log: LogEntry): ChainEvent => ({
+  chainID,
+  blockNumber: log.blockNumber,
+  transactionHash: log.transactionHash,
+});
+
+const toStoredEvent = ({ chainID, blockNumber, transactionHash }: ChainEvent): ChainEvent => ({
+  chainID,
+  blockNumber,
+  transactionHash,
+});
+
+const getTopics = (iface: Interface, eventNames: string[]) => [
+  eventNames.map(name => iface.getEvent(name)!.topicHash),
+];
+
+async function handleGovernorLogs(
+  provider: Provider,
+  governor: GovernorConfig,
+  logs: LogEntry[],
+  events: LifecycleEvents
+) {
+  const iface = new Interface(governorABI);
+  for (const log of logs) {
+    const parsed = iface.parseLog(log)!;
+    const proposalId = parsed.args.proposalId.toString();
+    const event = toChainEvent(governor.chainID, log);
+    switch (parsed.name) {
+      case 'ProposalQueued':
+        events.queued[proposalId] = { ...event, eta: Number(parsed.args.eta) };
+        break;
+      case 'ProposalExecuted':
+        events.executed[proposalId] = event;
+        if (governor.decode === 'core') {
+          events.l2ToL1Messages[proposalId] = await fetchL2ToL1Messages(provider, event);
+        }
+        break;
+      case 'ProposalCanceled':
+        events.canceled[proposalId] = event;
+        break;
+      default:
+        addVote(events, proposalId, Number(parsed.args.support), parsed.args.weight);
+    }
+  }
+}
+
+// Support is 0 against, 1 for, 2 abstain, as in GovernorCountingSimple
+const addVote = (events: LifecycleEvents, proposalId: string, support: number, weight: bigint) => {
+  const votes = (events.votes[proposalId] ??= { for: '0', against: '0', abstain: '0' });
+  const key = (['against', 'for', 'abstain'] as const)[support];
+  if (key) votes[key] = (BigInt(votes[key]) + weight).toString();
+};
+
+// Core proposals send their L1 Timelock operations through ArbSys when the L2 timelock executes
+async function fetchL2ToL1Messages(provider: Provider, execution: ChainEvent) {
+  const receipt = await provider.getTransactionReceipt(execution.transactionHash);
+  const arbSys = new Interface(arbSysABI);
+  return (receipt?.logs ?? [])
+    .filter(log => log.address.toLowerCase() === config.arbSys.toLowerCase())
+    .map(log => ({ log, parsed: arbSys.parseLog(log) }))
+    .filter(({ parsed }) => parsed?.name === 'L2ToL1Tx')
+    .map(({ log, parsed }) => ({
+      ...toChainEvent(execution.chainID, log),
+      position: parsed!.args.position.toString(),
+    }));
+}
+
+async function handleL1TimelockLogs(provider: Provider, logs: LogEntry[], events: LifecycleEvents) {
+  const iface = new Interface(l1TimelockABI);
+  for (const log of logs) {
+    const parsed = iface.parseLog(log)!;
+    const target = parsed.name === 'CallScheduled' ? events.l1Scheduled : events.l1Executed;
+    // Batches emit one event per call; the first is enough to date the operation
+    if (target[parsed.args.id]) continue;
+    const event = toChainEvent(1, log);
+    target[parsed.args.id] = event;
+    if (parsed.name === 'CallExecuted') {
+      events.retryablesCreated[event.transactionHash] ??= await fetchRetryablesCreated(
+        provider,
+        event
+      );
+    }
+  }
+}
+
+// Retryables created by an L1 Timelock execution, in the order their inboxes saw them
+async function fetchRetryablesCreated(provider: Provider, execution: ChainEvent) {
+  const receipt = await provider.getTransactionReceipt(execution.transactionHash);
+  const inbox = new Interface(inboxABI);
+  return (receipt?.logs ?? []).flatMap(log => {
+    const chain = config.chains.find(
+      entry => entry.inboxAddress.toLowerCase() === log.address.toLowerCase()
+    );
+    const parsed = chain && inbox.parseLog(log);
+    if (!chain || parsed?.name !== 'InboxMessageDelivered') return [];
+    return [
+      {
+        ...toChainEvent(chain.chainID, log),
+        messageNum: parsed.args.messageNum.toString(),
+      },
+    ];
+  });
+}
+
+function handleUpgradeExecutorLogs(chainID: number, logs: LogEntry[], events: LifecycleEvents) {
+  const iface = new Interface(upgradeExecutorABI);
+  for (const log of logs) {
+    const parsed = iface.parseLog(log)!;
+    events.upgradeExecutions.push({
+      ...toChainEvent(chainID, log),
+      type: parsed.name === 'UpgradeExecuted' ? 'DELEGATECALL' : 'CALL',
+      address: parsed.args[0],
+      data: parsed.args.data,
+    });
+  }
+}
+
+const requireProvider = (sources: LifecycleSources, chainID: number): Provider => {
+  const provider = sources.getProvider(chainID);
+  if (!provider) throw new Error(`No RPC for chain ${chainID}`);
+  return provider;
+};
+
+const getLogSource = (sources: LifecycleSources, chainID: number): LogSource =>
+  sources.getLogSource?.(chainID) ?? requireProvider(sources, chainID);
+
+// Indexes the events of every configured governor, the L1 Timelock and every L2 UpgradeExecutor
+// into events, starting each source after its cursor. Cursors only move once a chunk's logs are
+// in events, so an interrupted run that saved its checkpoints loses nothing
+export async function fetchLifecycleEvents(
+  sources: LifecycleSources,
+  events: LifecycleEvents = emptyLifecycleEvents()
+): Promise<LifecycleEvents> {
+  const cursors: LifecycleCursors = { ...sources.cursors };
+
+  const indexSource = async (
+    chainID: number,
+    source: string,
+    address: string,
+    topics: string[][],
+    handle: (logs: LogEntry[]) => void | Promise<void>
+  ) => {
+    const range = sources.ranges[chainID];
+    if (!range) return;
+    const key = `${chainID}:${source}`;
+    const fromBlock = Math.max(range.fromBlock, (cursors[key] ?? -1) + 1);
+    if (fromBlock > range.toBlock) return;
+    await getLogsInRange(
+      getLogSource(sources, chainID),
+      { address, topics },
+      { fromBlock, toBlock: range.toBlock },
+      {
+        ...sources.logOptions,
+        onLogs: async (logs, chunk) => {
+          await handle(logs);
+          cursors[key] = chunk.toBlock;
+          await sources.onCheckpoint?.(events, cursors);
+        },
+      }
+    );
+  };
+
+  const governorTopics = getTopics(new Interface(governorABI), [
+    'ProposalQueued',
+    'ProposalExecuted',
+    'ProposalCanceled',
+    'VoteCast',
+    'VoteCastWithParams',
+  ]);
+  for (const governor of config.governors) {
+    if (!sources.ranges[governor.chainID]) continue;
+    const provider = requireProvider(sources, governor.chainID);
+    await indexSource(governor.chainID, governor.id, governor.address, governorTopics, logs =>
+      handleGovernorLogs(provider, governor, logs, events)
+    );
+  }
+
+  if (sources.ranges[1]) {
+    const l1 = requireProvider(sources, 1);
+    const topics = getTopics(new Interface(l1TimelockABI), ['CallScheduled', 'CallExecuted']);
+    await indexSource(1, 'l1Timelock', config.l1Timelock, topics, logs =>
+      handleL1TimelockLogs(l1, logs, events)
+    );
+  }
+
+  const executorTopics = getTopics(new Interface(upgradeExecutorABI), [
+    'UpgradeExecuted',
+    'TargetCallExecuted',
+  ]);
+  for (const chain of config.chains) {
+    await indexSource(
+      chain.chainID,
+      'upgradeExecutor',
+      chain.upgradeExecutorAddress,
+      executorTopics,
+      logs => handleUpgradeExecutorLogs(chain.chainID, logs, events)
+    );
+  }
+  return events;
+}
+
+// What joining events onto a proposal needs from it
+export type LifecycleProposal = Pick<
+  StoredProposal,
+  'proposalId' | 'targets' | 'calldatas' | 'blockNumber' | 'transactionHash'
+>;
+
+const getCoreOperations = (proposal: LifecycleProposal): L1TimelockOperation[] =>
+  proposal.targets
+    .map((target, i) => ({ target, calldata: proposal.calldatas[i] }))
+    .filter(({ target }) => target.toLowerCase() === config.arbSys.toLowerCase())
+    .flatMap(({ calldata }) => {
+      try {
+        return [decodeOperation(calldata)];
+      } catch {
+        return [];
+      }
+    });
+
+// Joins the indexed events onto one proposal
+export function buildLifecycle(
+  proposal: LifecycleProposal,
+  governorId: GovernorId,
+  events: LifecycleEvents
+): ProposalLifecycle {
+  const { proposalId } = proposal;
+  const governor = getGovernor(governorId);
+  const operations = governor.decode === 'core' ? getCoreOperations(proposal) : [];
+
+  const retryables = operations.flatMap(operation => {
+    const l1Execution = events.l1Executed[operation.id];
+    const created = l1Execution
+      ? (events.retryablesCreated[l1Execution.transactionHash] ?? [])
+      : [];
+    const l2Actions = operation.actions.filter(action => action.chainID !== 1);
+    return l2Actions.map(action => {
+      // Inbox messages come out in the same order as the operation's calls
+      const index = l2Actions.filter(other => other.chainID === action.chainID).indexOf(action);
+      const redeemed = events.upgradeExecutions.find(
+        execution =>
+          execution.chainID === action.chainID &&
+          execution.type === action.type &&
+          execution.address.toLowerCase() === action.address.toLowerCase() &&
+          execution.data.toLowerCase() === action.callData.toLowerCase()
+      );
+      return {
+        chainID: action.chainID,
+        address: action.address,
+        created: created.filter(entry => entry.chainID === action.chainID)[index],
+        redeemed: redeemed && toStoredEvent(redeemed),
+      };
+    });
+  });
+
+  return {
+    proposalId,
+    governor: governorId,
+    created: {
+      chainID: governor.chainID,
+      blockNumber: proposal.blockNumber,
+      transactionHash: proposal.transactionHash,
+    },
+    queued: events.queued[proposalId],
+    executed: events.executed[proposalId],
+    canceled: events.canceled[proposalId],
+    l2ToL1Messages: events.l2ToL1Messages[proposalId] ?? [],
+    l1Operations: operations.map(operation => ({
+      id: operation.id,
+      scheduled: events.l1Scheduled[operation.id],
+      executed: events.l1Executed[operation.id],
+    })),
+    retryables,
+  };
+}
+
+// States a proposal can't leave, so they're never read again
+const finalStates: GovernorState[] = ['Canceled', 'Defeated', 'Expired', 'Executed'];
+const STATE_READ_CONCURRENCY = 5;
+
+// Runs fn over items with at most limit calls in flight
+const forEachConcurrently = async <T>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<void>
+) => {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) await fn(items[next++]);
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+};
+
+// governor.state() of every proposal that isn't final yet, by an earlier run's state or the
+// indexed events; a failed read keeps the earlier state rather than failing the pass
+async function fetchProposalStates(
+  sources: LifecycleSources,
+  proposals: Record<GovernorId, StoredProposal[]>,
+  events: LifecycleEvents,
+  previous: ProposalLifecycle[]
+): Promise<Record<string, GovernorState | undefined>> {
+  const states: Record<string, GovernorState | undefined> = Object.fromEntries(
+    previous.map(lifecycle => [lifecycle.proposalId, lifecycle.state])
+  );
+
+  for (const [governorId, governorProposals] of Object.entries(proposals)) {
+    const pending = governorProposals.filter(({ proposalId }) => {
+      if (events.canceled[proposalId]) states[proposalId] = 'Canceled';
+      else if (events.executed[proposalId]) states[proposalId] = 'Executed';
+      const state = states[proposalId];
+      return !state || !finalStates.includes(state);
+    });
+    if (!pending.length) continue;
+
+    const { address, chainID } = getGovernor(governorId);
+    const governor = new Contract(address, governorABI, requireProvider(sources, chainID));
+    await forEachConcurrently(pending, STATE_READ_CONCURRENCY, async ({ proposalId }) => {
+      try {
+        states[proposalId] = governorStates[Number(await governor.state(proposalId))];
+      } catch (err) {
+        sources.onStateError?.(proposalId, err);
+      }
+    });
+  }
+  return states;
+}
+
+// Indexes everything (on top of events from an earlier run, if given) and joins it per proposal,
+// ordered by creation block. Only proposals whose state in previous isn't final are read again
+export async function fetchProposalLifecycles(
+  proposals: Record<GovernorId, StoredProposal[]>,
+  sources: LifecycleSources,
+  previousEvents?: LifecycleEvents,
+  previous: ProposalLifecycle[] = []
+): Promise<ProposalLifecycle[]> {
+  const events = await fetchLifecycleEvents(sources, previousEvents);
+  const states = await fetchProposalStates(sources, proposals, events, previous);
+
+  return Object.entries(proposals)
+    .flatMap(([governorId, governorProposals]) =>
+      governorProposals.map(proposal => ({
+        ...buildLifecycle(proposal, governorId, events),
+        state: states[proposal.proposalId],
+        votes: events.votes[proposal.proposalId],
+      }))
+    )
+    .sort((a, b) => a.created.blockNumber - b.created.blockNumber);
+}
+
+// One proposal's lifecycle read live, for proposals the indexed data doesn't cover yet. Only logs
+// that can concern it are queried: its governor's from its creation block, the L1 Timelock's for
+// its operation IDs, and UpgradeExecutor logs once its retryables have been created
+export async function fetchProposalLifecycle(
+  proposal: LifecycleProposal,
+  governorId: GovernorId,
+  sources: LifecycleSources
+): Promise<ProposalLifecycle> {
+  const governor = getGovernor(governorId);
+  const { proposalId } = proposal;
+  const options = sources.logOptions;
+  const provider = requireProvider(sources, governor.chainID);
+  const events = emptyLifecycleEvents();
+
+  const governorRange = sources.ranges[governor.chainID];
+  if (governorRange) {
+    const iface = new Interface(governorABI);
+    const topics = getTopics(iface, ['ProposalQueued', 'ProposalExecuted', 'ProposalCanceled']);
+    const logs = await getLogsInRange(
+      getLogSource(sources, governor.chainID),
+      { address: governor.address, topics },
+      {
+        fromBlock: Math.max(governorRange.fromBlock, proposal.blockNumber),
+        toBlock: governorRange.toBlock,
+      },
+      options
+    );
+    const own = logs.filter(log => iface.parseLog(log)!.args.proposalId.toString() === proposalId);
+    await handleGovernorLogs(provider, governor, own, events);
+  }
+
+  const l1Range = sources.ranges[1];
+  if (governor.decode === 'core' && events.executed[proposalId] && l1Range) {
+    const [names] = getTopics(new Interface(l1TimelockABI), ['CallScheduled', 'CallExecuted']);
+    for (const { id } of getCoreOperations(proposal)) {
+      const logs = await getLogsInRange(
+        getLogSource(sources, 1),
+        { address: config.l1Timelock, topics: [names, id] },
+        l1Range,
+        options
+      );
+      await handleL1TimelockLogs(requireProvider(sources, 1), logs, events);
+    }
+  }
+
+  const [executorTopic] = getTopics(new Interface(upgradeExecutorABI), [
+    'UpgradeExecuted',
+    'TargetCallExecuted',
+  ]);
+  const retryableChainIDs = new Set(
+    Object.values(events.retryablesCreated).flatMap(created => created.map(entry => entry.chainID))
+  );
+  for (const chain of config.chains.filter(entry => retryableChainIDs.has(entry.chainID))) {
+    const range = sources.ranges[chain.chainID];
+    if (!range) continue;
+    const logs = await getLogsInRange(
+      getLogSource(sources, chain.chainID),
+      { address: chain.upgradeExecutorAddress, topics: [executorTopic] },
+      range,
+      options
+    );
+    handleUpgradeExecutorLogs(chain.chainID, logs, events);
+  }
+
+  // For a single proposal the governor's running totals are cheaper than its VoteCast logs
+  const contract = new Contract(governor.address, governorABI, provider);
+  const [state, [against, votesFor, abstain]] = await Promise.all([
+    contract.state(proposalId),
+    contract.proposalVotes(proposalId),
+  ]);
+  return {
+    ...buildLifecycle(proposal, governorId, events),
+    state: governorStates[Number(state)],
+    votes: { for: votesFor.toString(), against: against.toString(), abstain: abstain.toString() },
+  };
+}
+
+export type ProposalStage =
+  | 'voting'
+  | 'succeeded' // passed, waiting to be queued
+  | 'queued' // in the L2 timelock
+  | 'l2-to-l1' // waiting out the challenge period before the Outbox can execute it
+  | 'l1-timelock'
+  | 'retryables' // waiting for L2 redemption
+  | 'executed'
+  | 'canceled'
+  | 'defeated'
+  | 'expired';
+
+const formatDays = (seconds: number) => `${(seconds / 86400).toFixed(1)} days`;
+
+// What has to happen to leave each stage
+const getStageSteps = (lifecycle: ProposalLifecycle): { stage: ProposalStage; step: string }[] => {
+  const governor = getGovernor(lifecycle.governor);
+  if (governor.decode === 'direct') {
+    return [
+      { stage: 'voting', step: 'Voting' },
+      { stage: 'succeeded', step: `Queue in the ${governor.name}'s timelock` },
+      { stage: 'queued', step: 'Timelock delay and execution' },
+    ];
+  }
+  return [
+    { stage: 'voting', step: 'Voting' },
+    { stage: 'succeeded', step: 'Queue in the L2 Core Timelock' },
+    {
+      stage: 'queued',
+      step: `L2 Core Timelock delay (${formatDays(config.l2CoreTimelockDelay)}) and execution`,
+    },
+    {
+      stage: 'l2-to-l1',
+      step: `Challenge period (${formatDays(config.challengePeriod)}) and Outbox execution`,
+    },
+    {
+      stage: 'l1-timelock',
+      step: `L1 Timelock delay (${formatDays(config.l1TimelockDelay)}) and execution`,
+    },
+    ...(lifecycle.retryables.length
+      ? [{ stage: 'retryables' as const, step: 'Retryable redemption on the L2s' }]
+      : []),
+  ];
+};
+
+export function getProposalStage(lifecycle: ProposalLifecycle): ProposalStage {
+  const { state } = lifecycle;
+  if (lifecycle.canceled || state === 'Canceled') return 'canceled';
+  if (state === 'Defeated') return 'defeated';
+  if (state === 'Expired') return 'expired';
+
+  if (!lifecycle.executed) {
+    if (lifecycle.queued || state === 'Queued') return 'queued';
+    if (state === 'Succeeded') return 'succeeded';
+    return 'voting';
+  }
+  if (getGovernor(lifecycle.governor).decode === 'direct') return 'executed';
+
+  const { l1Operations } = lifecycle;
+  if (l1Operations.some(operation => !operation.scheduled)) return 'l2-to-l1';
+  if (l1Operations.some(operation => !operation.executed)) return 'l1-timelock';
+  if (lifecycle.retryables.some(retryable => !retryable.redeemed)) return 'retryables';
+  return 'executed';
+}
+
+// The current stage plus the steps left before the proposal is fully executed
+export function getProposalProgress(lifecycle: ProposalLifecycle): {
+  stage: ProposalStage;
+  remaining: string[];
+} {
+  const stage = getProposalStage(lifecycle);
+  const steps = getStageSteps(lifecycle);
+  const index = steps.findIndex(entry => entry.stage === stage);
+  return { stage, remaining: index === -1 ? [] : steps.slice(index).map(entry => entry.step) };
+}
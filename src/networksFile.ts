@@ -0,0 +1,11 @@
+import { readFileSync } from 'fs';
+import { registerNetworks, type NetworkOverride } from './config';
+
+// Node-only: applies a JSON array of network overrides (see NetworkOverride) to the registry
+export function loadNetworksFile(path: string) {
+  const overrides: NetworkOverride[] = JSON.parse(readFileSync(path, 'utf8'));
+  if (!Array.isArray(overrides)) {
+    throw new Error(`${path} should contain a JSON array of networks`);
+  }
+  registerNetworks(overrides);
+}
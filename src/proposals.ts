@@ -0,0 +1,42 @@
+import { getGovernor, type GovernorId } from './config';
+import { decodeProposal, decodeTreasury, type Action } from './index';
+
+// Shape of the entries in each governor's data file, e.g. data/proposals.json
+export interface StoredProposal {
+  proposalId: string;
+  proposer: string;
+  targets: string[];
+  values: string[];
+  signatures: string[];
+  calldatas: string[];
+  startBlock: number;
+  endBlock: number;
+  description: string;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+// Matches either the proposal ID or the hash of the tx that created it
+export function findProposal(
+  proposals: StoredProposal[],
+  query: string
+): StoredProposal | undefined {
+  const needle = query.toLowerCase();
+  return proposals.find(
+    proposal => proposal.proposalId === query || proposal.transactionHash.toLowerCase() === needle
+  );
+}
+
+// Routed by the governor's decode strategy in config
+export function decodeStoredProposal(
+  proposal: Pick<StoredProposal, 'targets' | 'values' | 'calldatas'>,
+  governorId: GovernorId
+): Action[] {
+  const { decode, chainID } = getGovernor(governorId);
+  switch (decode) {
+    case 'core':
+      return decodeProposal(proposal.targets, proposal.values, proposal.calldatas, chainID);
+    case 'direct':
+      return decodeTreasury(proposal.targets, proposal.values, proposal.calldatas, chainID);
+  }
+}
@@ -0,0 +1,11 @@
+import { JsonRpcProvider, type Provider } from 'ethers';
+import { getBackendConfigs } from './config';
+
+export const createRpcProvider = (url: string, chainID: number): JsonRpcProvider =>
+  new JsonRpcProvider(url, chainID, { staticNetwork: true });
+
+// A provider for the network's first RPC backend, or undefined if it has none
+export function getNetworkProvider(chainID: number): Provider | undefined {
+  const rpc = getBackendConfigs(chainID).find(backend => backend.type === 'rpc');
+  return rpc ? createRpcProvider(rpc.url, chainID) : undefined;
+}
@@ -0,0 +1,205 @@
+import { Interface } from 'ethers';
+import {
+  accessControlABI,
+  actionContractABI,
+  arbOwnerABI,
+  arbSysABI,
+  erc20ABI,
+  gatewayRouterABI,
+  gnosisSafeABI,
+  governorABI,
+  hedgeyBatchPlannerABI,
+  multiSendABI,
+  proxyAdminABI,
+  rollupAdminABI,
+  sablierLockupLinearABI,
+  treasuryWalletABI,
+  upgradeableABI,
+  upgradeExecutorABI,
+  vestingWalletFactoryABI,
+} from './abis';
+import { config } from './config';
+import { buildDecodedCall, type DecodedCall } from './decodedCall';
+import { decodeWithSignatures } from './signatures';
+
+export interface KnownContract {
+  name: string;
+  chainID: number;
+  address: string;
+  abi: string[];
+}
+
+export const arbOwner = '0x0000000000000000000000000000000000000070';
+
+// Governance contracts that aren't described by the network registry in config
+const staticContracts: KnownContract[] = [
+  {
+    name: 'L1 ProxyAdmin',
+    chainID: 1,
+    address: '0x5613AF0474EB9c528A34701A5b1662E3C8FA0678',
+    abi: proxyAdminABI,
+  },
+  {
+    name: 'Arb One ProxyAdmin',
+    chainID: 42161,
+    address: '0xdb216562328215E010F819B5aBe947bad4ca961e',
+    abi: proxyAdminABI,
+  },
+  {
+    name: 'Nova ProxyAdmin',
+    chainID: 42170,
+    address: '0xf58eA15B20983116c21b05c876cc8e6CDAe5C2b9',
+    abi: proxyAdminABI,
+  },
+  {
+    name: 'Emergency Security Council',
+    chainID: 42161,
+    address: '0x423552c0F05baCCac5Bfa91C6dCF1dc53a0A1641',
+    abi: gnosisSafeABI,
+  },
+  {
+    name: 'Non-Emergency Security Council',
+    chainID: 42161,
+    address: '0xADd68bCb0f66878aB9D37a447C7b9067C5dfa941',
+    abi: gnosisSafeABI,
+  },
+  {
+    name: 'L1 Emergency Security Council',
+    chainID: 1,
+    address: '0xF06E95eF589D9c38af242a8AAee8375f14023F85',
+    abi: gnosisSafeABI,
+  },
+  { name: 'ArbOwner', chainID: 42161, address: arbOwner, abi: arbOwnerABI },
+  { name: 'ArbOwner', chainID: 42170, address: arbOwner, abi: arbOwnerABI },
+  { name: 'ArbSys', chainID: 42161, address: config.arbSys, abi: arbSysABI },
+  { name: 'ArbSys', chainID: 42170, address: config.arbSys, abi: arbSysABI },
+  {
+    name: 'Treasury Wallet',
+    chainID: 42161,
+    address: config.treasuryWallet,
+    abi: treasuryWalletABI,
+  },
+  {
+    name: 'Hedgey BatchPlanner',
+    chainID: 42161,
+    address: '0x3466EB008EDD8d5052446293D1a7D212cb65C646',
+    abi: hedgeyBatchPlannerABI,
+  },
+];
+
+// Governance targets we can decode without hitting an explorer
+export function getKnownContracts(): KnownContract[] {
+  const fromNetworks = config.networks.flatMap(network => {
+    const contracts: KnownContract[] = [
+      ...network.tokens.map(token => ({
+        name: `${token.symbol} Token`,
+        chainID: network.chainID,
+        address: token.address,
+        abi: erc20ABI,
+      })),
+      ...network.governors.flatMap(governor => [
+        {
+          name: governor.name,
+          chainID: network.chainID,
+          address: governor.address,
+          abi: governorABI,
+        },
+        {
+          name: `${governor.name} Timelock`,
+          chainID: network.chainID,
+          address: governor.timelock,
+          abi: accessControlABI,
+        },
+      ]),
+    ];
+    if (network.upgradeExecutor) {
+      contracts.push({
+        name: `${network.name} UpgradeExecutor`,
+        chainID: network.chainID,
+        address: network.upgradeExecutor,
+        abi: upgradeExecutorABI,
+      });
+    }
+    if (network.bridge && network.parentChainID) {
+      contracts.push({
+        name: `${network.name} Rollup`,
+        chainID: network.parentChainID,
+        address: network.bridge.rollup,
+        abi: rollupAdminABI,
+      });
+      if (network.bridge.l1GatewayRouter) {
+        contracts.push({
+          name: `${network.name} L1 GatewayRouter`,
+          chainID: network.parentChainID,
+          address: network.bridge.l1GatewayRouter,
+          abi: gatewayRouterABI,
+        });
+      }
+      if (network.bridge.l2GatewayRouter) {
+        contracts.push({
+          name: `${network.name} L2 GatewayRouter`,
+          chainID: network.chainID,
+          address: network.bridge.l2GatewayRouter,
+          abi: gatewayRouterABI,
+        });
+      }
+    }
+    return contracts;
+  });
+
+  return [...staticContracts, ...fromNetworks];
+}
+
+// Every known function, for calls whose target we don't recognise (e.g. action contracts)
+const fallbackInterface = new Interface([
+  ...new Set(
+    [
+      actionContractABI,
+      upgradeableABI,
+      proxyAdminABI,
+      rollupAdminABI,
+      erc20ABI,
+      treasuryWalletABI,
+      accessControlABI,
+      governorABI,
+      gnosisSafeABI,
+      multiSendABI,
+      arbOwnerABI,
+      upgradeExecutorABI,
+      vestingWalletFactoryABI,
+      hedgeyBatchPlannerABI,
+      sablierLockupLinearABI,
+      gatewayRouterABI,
+    ].flat()
+  ),
+]);
+
+export function getKnownContract(chainID: number, address: string): KnownContract | undefined {
+  return getKnownContracts().find(
+    contract =>
+      contract.chainID === chainID && contract.address.toLowerCase() === address.toLowerCase()
+  );
+}
+
+export function decodeKnownCall(
+  callData: string,
+  address?: string,
+  chainID?: number
+): DecodedCall | undefined {
+  if (!callData || callData.length < 10) return undefined;
+
+  const selector = callData.slice(0, 10);
+  const known = address && chainID ? getKnownContract(chainID, address) : undefined;
+  const iface = known ? new Interface(known.abi) : fallbackInterface;
+  const fragment = iface.getFunction(selector) ?? fallbackInterface.getFunction(selector);
+  const decodeNested = (nestedCallData: string, nestedAddress?: string) =>
+    decodeKnownCall(nestedCallData, nestedAddress, chainID);
+  // Selectors none of our ABIs have are looked up in the bundled signature database
+  if (!fragment) return decodeWithSignatures(callData, undefined, decodeNested);
+
+  try {
+    return buildDecodedCall(fragment, callData, decodeNested);
+  } catch {
+    return undefined;
+  }
+}
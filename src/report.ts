@@ -0,0 +1,101 @@
+import { formatEther } from 'ethers';
+import { getChainName, getExplorerUrl, getGovernor, type GovernorId } from './config';
+import { formatDecodedCall } from './decodedCall';
+import { getExplanation } from './explain';
+import type { Action } from './index';
+import { decodeStoredProposal, type StoredProposal } from './proposals';
+import {
+  formatTreasuryAmount,
+  getTreasuryFlows,
+  getTreasuryOutflows,
+  isOutflow,
+  type TreasuryFlow,
+} from './treasury';
+
+export type ReportProposal = Pick<
+  StoredProposal,
+  'proposalId' | 'description' | 'targets' | 'values' | 'calldatas'
+>;
+
+const describeActionType = (action: Action): string =>
+  action.type === 'DELEGATECALL' ? 'Action contract call (DELEGATECALL)' : 'Call';
+
+function formatAction(action: Action, index: number): string {
+  const lines = [
+    `### Action ${index + 1}`,
+    '',
+    `- **Chain:** ${getChainName(action.chainID)} (${action.chainID})`,
+    `- **Type:** ${describeActionType(action)}`,
+    `- **Address:** [\`${action.address}\`](${getExplorerUrl(action.chainID, action.address)})`,
+  ];
+  if (action.value) {
+    lines.push(`- **Value:** ${formatEther(action.value)} ETH`);
+  }
+  if (action.decodedCall) {
+    lines.push(`- **Call:** \`${formatDecodedCall(action.decodedCall)}\``);
+  } else {
+    lines.push(`- **Calldata:** \`${action.callData || '0x'}\``);
+  }
+
+  const explanation = getExplanation(action);
+  if (explanation) {
+    lines.push(`- **Explanation:** ${explanation}`);
+  }
+  for (const warning of action.warnings ?? []) {
+    lines.push(`- ⚠ **${warning.severity.toUpperCase()}:** ${warning.message}`);
+  }
+  return lines.join('\n');
+}
+
+const describeFlow = (flow: TreasuryFlow): string => {
+  const destination = flow.destinationChainID ? ` on ${getChainName(flow.destinationChainID)}` : '';
+  const kind = flow.kind[0].toUpperCase() + flow.kind.slice(1);
+  return `${kind} of ${formatTreasuryAmount(flow)} to \`${flow.recipient}\`${destination}`;
+};
+
+// Totals per chain and token, then every flow behind them including the ones not counted
+function formatTreasuryOutflows(actions: Action[]): string[] {
+  const flows = actions.flatMap(action => getTreasuryFlows(action));
+  if (!flows.length) return [];
+  const totals = getTreasuryOutflows(actions).map(
+    total => `- **${getChainName(total.chainID)}:** ${formatTreasuryAmount(total)}`
+  );
+  return [
+    `## Treasury Outflows`,
+    '',
+    ...(totals.length ? totals : ['- None']),
+    '',
+    '**Flows:**',
+    '',
+    ...flows.map(flow => `- ${describeFlow(flow)}${isOutflow(flow) ? '' : ' (not counted)'}`),
+    '',
+  ];
+}
+
+// Forum/Tally-ready Markdown for a proposal; pass actions to reuse an existing decode
+export function generateReport(
+  proposal: ReportProposal,
+  governorId: GovernorId,
+  actions?: Action[]
+): string {
+  const decoded = actions ?? decodeStoredProposal(proposal, governorId);
+
+  const warningCount = decoded.reduce((sum, action) => sum + (action.warnings?.length ?? 0), 0);
+
+  return [
+    `# ${getGovernor(governorId).name} Proposal`,
+    '',
+    `**Proposal ID:** \`${proposal.proposalId}\``,
+    '',
+    `## Description`,
+    '',
+    proposal.description.trim(),
+    '',
+    `## Decoded Actions (${decoded.length})`,
+    '',
+    ...(warningCount ? [`> ⚠ ${warningCount} warning(s) flagged below.`, ''] : []),
+    decoded.map(formatAction).join('\n\n'),
+    '',
+    ...formatTreasuryOutflows(decoded),
+  ].join('\n');
+}
@@ -0,0 +1,47 @@
+import { FunctionFragment, Interface } from 'ethers';
+import { buildDecodedCall, type DecodedCall, type NestedDecoder } from './decodedCall';
+import bundledDatabase from './signatureDatabase.json';
+
+// Regenerated by scripts/build-signatures.ts; version goes up whenever the signatures change
+export interface SignatureDatabase {
+  version: number;
+  signatures: Record<string, string[]>; // selector -> every known text signature with it
+}
+
+export const signatureDatabase: SignatureDatabase = bundledDatabase;
+
+export const getSelector = (callData: string) => callData.slice(0, 10).toLowerCase();
+
+// A signature only fits calldata if decoding and re-encoding gives the calldata back byte for
+// byte, which rules out most colliding selectors and anything with trailing or malformed data
+export function fitsCallData(signature: string, callData: string): boolean {
+  try {
+    const fragment = FunctionFragment.from(`function ${signature}`);
+    if (fragment.selector !== getSelector(callData)) return false;
+    const iface = new Interface([fragment]);
+    const decoded = iface.decodeFunctionData(fragment, callData);
+    return iface.encodeFunctionData(fragment, decoded).toLowerCase() === callData.toLowerCase();
+  } catch {
+    return false;
+  }
+}
+
+// Every candidate that fits, the bundled database's by default
+export function findSignatures(
+  callData: string,
+  candidates: string[] = signatureDatabase.signatures[getSelector(callData)] ?? []
+): string[] {
+  return [...new Set(candidates)].filter(signature => fitsCallData(signature, callData));
+}
+
+// Only decodes when exactly one candidate fits; a real collision is left to an ABI lookup
+export function decodeWithSignatures(
+  callData: string,
+  candidates?: string[],
+  decodeNested?: NestedDecoder
+): DecodedCall | undefined {
+  if (!callData || callData.length < 10) return undefined;
+  const [signature, ...others] = findSignatures(callData, candidates);
+  if (!signature || others.length) return undefined;
+  return buildDecodedCall(FunctionFragment.from(`function ${signature}`), callData, decodeNested);
+}
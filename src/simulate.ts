@@ -0,0 +1,205 @@
+import { Interface, JsonRpcProvider, toBeHex, toQuantity } from 'ethers';
+import { upgradeExecutorABI } from './abis';
+import { config, getGovernor, type GovernorId } from './config';
+import type { Action } from './index';
+
+export interface SimulatedLog {
+  address: string;
+  topics: string[];
+  data: string;
+}
+
+export interface StorageChange {
+  address: string;
+  slot: string;
+  before: string;
+  after: string;
+}
+
+export interface SimulationResult {
+  action: Action;
+  status: 'success' | 'reverted' | 'skipped';
+  from?: string; // the impersonated account
+  to?: string;
+  txHash?: string;
+  gasUsed?: string;
+  revertReason?: string;
+  logs: SimulatedLog[];
+  storageChanges?: StorageChange[]; // undefined if the node can't produce a prestate diff
+}
+
+export interface SimulationOptions {
+  governor?: GovernorId; // unset for raw calldata, which is simulated as a core proposal
+  forks: Record<number, string>; // chainID -> RPC URL of a local anvil/hardhat fork
+}
+
+// Generous fixed limit so estimateGas quirks on forks don't get in the way
+const SIMULATION_GAS_LIMIT = 30_000_000;
+const SIMULATION_BALANCE = 10n ** 24n;
+
+// L1 contracts calling into an L2 appear there under this alias
+const L1_TO_L2_ALIAS_OFFSET = 0x1111000000000000000000000000000000001111n;
+
+export function applyL1ToL2Alias(address: string): string {
+  const aliased = (BigInt(address) + L1_TO_L2_ALIAS_OFFSET) % 2n ** 160n;
+  return toBeHex(aliased, 20);
+}
+
+const getUpgradeExecutor = (chainID: number): string => {
+  if (chainID === 1) return config.l1UpgradeExecutor;
+  const chain = config.chains.find(entry => entry.chainID === chainID);
+  if (!chain) throw new Error(`No UpgradeExecutor configured for chain ${chainID}`);
+  return chain.upgradeExecutorAddress;
+};
+
+// Who sends the simulated tx, and what it looks like, for a given action
+function buildTransaction(action: Action, governorId: GovernorId | undefined) {
+  const governor = governorId === undefined ? undefined : getGovernor(governorId);
+  // Direct governors' calls, and core proposal calls that don't go through ArbSys, are made by
+  // the governor's timelock
+  if (governor?.decode === 'direct' || action.sender === 'timelock') {
+    const from = governor?.timelock ?? config.l2CoreTimelock;
+    return { from, to: action.address, data: action.callData };
+  }
+  // Plain calls sent to an inbox come from the L1 Timelock's alias
+  if (action.type === 'CALL' && action.sender === 'l1Timelock') {
+    const from = action.chainID === 1 ? config.l1Timelock : applyL1ToL2Alias(config.l1Timelock);
+    return { from, to: action.address, data: action.callData };
+  }
+
+  const upgradeExecutor = getUpgradeExecutor(action.chainID);
+  if (action.type === 'CALL') {
+    return { from: upgradeExecutor, to: action.address, data: action.callData };
+  }
+
+  // DELEGATECALLs go through UpgradeExecutor.execute, called by whoever holds EXECUTOR_ROLE:
+  // the L1 Timelock on L1, and its alias on the L2s (via retryables)
+  const executorCaller =
+    action.chainID === 1 ? config.l1Timelock : applyL1ToL2Alias(config.l1Timelock);
+  const data = new Interface(upgradeExecutorABI).encodeFunctionData('execute', [
+    action.address,
+    action.callData,
+  ]);
+  return { from: executorCaller, to: upgradeExecutor, data };
+}
+
+// anvil and hardhat expose the same cheatcodes under different prefixes
+const getCheatcodePrefix = async (provider: JsonRpcProvider): Promise<string> => {
+  const clientVersion: string = await provider.send('web3_clientVersion', []);
+  return clientVersion.toLowerCase().includes('anvil') ? 'anvil' : 'hardhat';
+};
+
+const getStorageChanges = async (
+  provider: JsonRpcProvider,
+  txHash: string
+): Promise<StorageChange[] | undefined> => {
+  type AccountState = { storage?: Record<string, string> };
+  try {
+    const diff: { pre: Record<string, AccountState>; post: Record<string, AccountState> } =
+      await provider.send('debug_traceTransaction', [
+        txHash,
+        { tracer: 'prestateTracer', tracerConfig: { diffMode: true } },
+      ]);
+
+    const zero = toBeHex(0, 32);
+    const addresses = new Set([...Object.keys(diff.pre ?? {}), ...Object.keys(diff.post ?? {})]);
+    return [...addresses].flatMap(address => {
+      const before = diff.pre?.[address]?.storage ?? {};
+      const after = diff.post?.[address]?.storage ?? {};
+      const slots = new Set([...Object.keys(before), ...Object.keys(after)]);
+      return [...slots]
+        .map(slot => ({
+          address,
+          slot,
+          before: before[slot] ?? zero,
+          after: after[slot] ?? zero,
+        }))
+        .filter(change => change.before !== change.after);
+    });
+  } catch {
+    return undefined;
+  }
+};
+
+async function simulateAction(
+  provider: JsonRpcProvider,
+  cheatcodePrefix: string,
+  action: Action,
+  governorId: GovernorId | undefined
+): Promise<SimulationResult> {
+  const { from, to, data } = buildTransaction(action, governorId);
+  const tx = {
+    from,
+    to,
+    data,
+    value: toQuantity(action.value ?? 0),
+    gas: toQuantity(SIMULATION_GAS_LIMIT),
+  };
+
+  await provider.send(`${cheatcodePrefix}_impersonateAccount`, [from]);
+  await provider.send(`${cheatcodePrefix}_setBalance`, [from, toQuantity(SIMULATION_BALANCE)]);
+
+  try {
+    // eth_call first so reverts come back with a reason instead of a failed receipt
+    try {
+      await provider.send('eth_call', [tx, 'latest']);
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      return { action, status: 'reverted', from, to, revertReason: reason, logs: [] };
+    }
+
+    const txHash: string = await provider.send('eth_sendTransaction', [tx]);
+    const receipt = await provider.waitForTransaction(txHash);
+    if (!receipt) throw new Error(`No receipt for simulated tx ${txHash}`);
+
+    return {
+      action,
+      status: receipt.status === 1 ? 'success' : 'reverted',
+      from,
+      to,
+      txHash,
+      gasUsed: receipt.gasUsed.toString(),
+      logs: receipt.logs.map(log => ({
+        address: log.address,
+        topics: [...log.topics],
+        data: log.data,
+      })),
+      storageChanges: await getStorageChanges(provider, txHash),
+    };
+  } finally {
+    await provider.send(`${cheatcodePrefix}_stopImpersonatingAccount`, [from]);
+  }
+}
+
+// Runs each action, in order, against the fork for its chain; state carries over between actions
+export async function simulateActions(
+  actions: Action[],
+  options: SimulationOptions
+): Promise<SimulationResult[]> {
+  const providers = new Map<number, JsonRpcProvider>();
+  const cheatcodePrefixes = new Map<number, string>();
+  const results: SimulationResult[] = [];
+
+  try {
+    for (const action of actions) {
+      const forkUrl = options.forks[action.chainID];
+      if (!forkUrl) {
+        results.push({ action, status: 'skipped', logs: [] });
+        continue;
+      }
+
+      let provider = providers.get(action.chainID);
+      if (!provider) {
+        provider = new JsonRpcProvider(forkUrl, undefined, { staticNetwork: true });
+        providers.set(action.chainID, provider);
+        cheatcodePrefixes.set(action.chainID, await getCheatcodePrefix(provider));
+      }
+      const cheatcodePrefix = cheatcodePrefixes.get(action.chainID)!;
+      results.push(await simulateAction(provider, cheatcodePrefix, action, options.governor));
+    }
+    return results;
+  } finally {
+    // Also when a fork fails part way, so no provider is left polling
+    for (const provider of providers.values()) provider.destroy();
+  }
+}
@@ -0,0 +1,464 @@
+import {
+  AbiCoder,
+  Interface,
+  id,
+  keccak256,
+  type Provider,
+  type TransactionResponse,
+} from 'ethers';
+import { arbRetryableTxABI, gnosisSafeABI, governorABI, l1TimelockABI, outboxABI } from './abis';
+import {
+  config,
+  findGovernorByAddress,
+  getChainName,
+  type GovernorConfig,
+  type GovernorId,
+} from './config';
+import {
+  decodeL1TimelockOperation,
+  decodeOperation,
+  decodeSecurityCouncilTransaction,
+  decodeUpgradeExecutorCall,
+  type Action,
+  type L1TimelockOperation,
+} from './index';
+import { decodeStoredProposal, type StoredProposal } from './proposals';
+import { getNetworkProvider } from './provider';
+
+export const arbRetryableTx = '0x000000000000000000000000000000000000006E';
+
+// What a tx did to a proposal on its way through governance
+export type TransactionKind =
+  | 'proposal-created'
+  | 'proposal-queued'
+  | 'proposal-executed'
+  | 'l1-timelock-scheduled' // Outbox.executeTransaction, which emits CallScheduled
+  | 'l1-timelock-executed'
+  | 'retryable-redeem' // the L2 UpgradeExecutor call, auto-redeemed or via ArbRetryableTx.redeem
+  | 'security-council';
+
+export type ProposalCalls = Pick<
+  StoredProposal,
+  'proposalId' | 'description' | 'targets' | 'values' | 'calldatas'
+>;
+
+export interface CrossCheck {
+  status: 'match' | 'mismatch' | 'not-found';
+  proposalId?: string;
+  message: string;
+}
+
+export interface ResolvedTransaction {
+  kind: TransactionKind;
+  txHash: string; // for redeems, the retry tx that actually ran the call
+  chainID: number;
+  governor?: GovernorId; // unset for Security Council txs and calls of no stored proposal
+  proposalId?: string;
+  operations: L1TimelockOperation[];
+  actions: Action[];
+  crossCheck?: CrossCheck; // unset for Security Council txs, which have no proposal
+}
+
+export interface ResolveOptions {
+  proposals: Record<GovernorId, ProposalCalls[]>; // normally each governor's data file
+  chainIDs?: number[]; // where to look for the tx, in order; defaults to the governors' chains, L1, the rest
+  getProvider?: (chainID: number) => Provider | undefined;
+}
+
+const abiCoder = AbiCoder.defaultAbiCoder();
+
+const sameAddress = (a: string | null | undefined, b: string) =>
+  a?.toLowerCase() === b.toLowerCase();
+
+// OpenZeppelin Governor.hashProposal
+export function hashProposal(
+  targets: string[],
+  values: (string | bigint)[],
+  calldatas: string[],
+  descriptionHash: string
+): string {
+  const encoded = abiCoder.encode(
+    ['address[]', 'uint256[]', 'bytes[]', 'bytes32'],
+    [targets, values, calldatas, descriptionHash]
+  );
+  return BigInt(keccak256(encoded)).toString();
+}
+
+const getOperations = (targets: string[], calldatas: string[]): L1TimelockOperation[] =>
+  targets
+    .map((target, i) => ({ target, calldata: calldatas[i] }))
+    .filter(({ target }) => sameAddress(target, config.arbSys))
+    .map(({ calldata }) => decodeOperation(calldata));
+
+// L1 Timelock operations and retryables only come from governors decoded the core way
+const getCoreProposals = (proposals: Record<GovernorId, ProposalCalls[]>): ProposalCalls[] =>
+  config.governors
+    .filter(governor => governor.decode === 'core')
+    .flatMap(governor => proposals[governor.id] ?? []);
+
+const findProposalGovernor = (
+  proposals: Record<GovernorId, ProposalCalls[]>,
+  proposalId: string | undefined
+): GovernorId | undefined =>
+  Object.keys(proposals).find(governorId =>
+    proposals[governorId].some(proposal => proposal.proposalId === proposalId)
+  );
+
+// Operations of every stored core proposal; proposals that no longer decode are skipped
+const getStoredOperations = (proposals: ProposalCalls[]) =>
+  proposals.flatMap(proposal => {
+    try {
+      return getOperations(proposal.targets, proposal.calldatas).map(operation => ({
+        proposal,
+        operation,
+      }));
+    } catch {
+      return [];
+    }
+  });
+
+const sameCalls = (
+  proposal: ProposalCalls,
+  targets: string[],
+  values: string[],
+  calldatas: string[]
+) =>
+  proposal.targets.length === targets.length &&
+  proposal.targets.every(
+    (target, i) =>
+      sameAddress(target, targets[i]) &&
+      BigInt(proposal.values[i]) === BigInt(values[i]) &&
+      proposal.calldatas[i].toLowerCase() === calldatas[i].toLowerCase()
+  );
+
+// Proposal ids hash the calls, so a changed call shows up as an unknown id; the description
+// hash is what ties it back to the stored proposal it was meant to be
+const crossCheckProposal = (
+  proposals: ProposalCalls[],
+  proposalId: string,
+  descriptionHash: string,
+  targets: string[],
+  values: string[],
+  calldatas: string[]
+): CrossCheck => {
+  const stored =
+    proposals.find(proposal => proposal.proposalId === proposalId) ??
+    proposals.find(proposal => id(proposal.description) === descriptionHash);
+  if (!stored) {
+    return {
+      status: 'not-found',
+      proposalId,
+      message: `Proposal ${proposalId} isn't in the stored proposals`,
+    };
+  }
+  return sameCalls(stored, targets, values, calldatas)
+    ? {
+        status: 'match',
+        proposalId: stored.proposalId,
+        message: `Calldata matches stored proposal ${stored.proposalId}`,
+      }
+    : {
+        status: 'mismatch',
+        proposalId: stored.proposalId,
+        message: `Calldata differs from what stored proposal ${stored.proposalId} proposed`,
+      };
+};
+
+// Operation ids commit to every call, so a matching id means matching calldata
+const crossCheckOperation = (
+  proposals: ProposalCalls[],
+  operation: L1TimelockOperation
+): CrossCheck => {
+  const match = getStoredOperations(proposals).find(entry => entry.operation.id === operation.id);
+  return match
+    ? {
+        status: 'match',
+        proposalId: match.proposal.proposalId,
+        message: `L1 Timelock operation ${operation.id} matches stored proposal ${match.proposal.proposalId}`,
+      }
+    : {
+        status: 'not-found',
+        message: `No stored proposal schedules L1 Timelock operation ${operation.id}`,
+      };
+};
+
+const sameAction = (a: Action, b: Action) =>
+  a.type === b.type &&
+  a.chainID === b.chainID &&
+  sameAddress(a.address, b.address) &&
+  a.callData.toLowerCase() === b.callData.toLowerCase();
+
+// Every executed call has to belong to the same stored operation; calls split across proposals,
+// or only partly found, are a mismatch
+const crossCheckL2Actions = (
+  proposals: ProposalCalls[],
+  actions: Action[],
+  chainID: number
+): CrossCheck => {
+  const operations = getStoredOperations(proposals);
+  const contains = (operation: L1TimelockOperation, action: Action) =>
+    operation.actions.some(stored => sameAction(stored, action));
+
+  const match = actions.length
+    ? operations.find(({ operation }) => actions.every(action => contains(operation, action)))
+    : undefined;
+  if (match) {
+    return {
+      status: 'match',
+      proposalId: match.proposal.proposalId,
+      message:
+        actions.length === 1
+          ? `Executed call matches an action of stored proposal ${match.proposal.proposalId}`
+          : `All ${actions.length} executed calls match actions of stored proposal ${match.proposal.proposalId}`,
+    };
+  }
+
+  const partial = operations.find(({ operation }) =>
+    actions.some(action => contains(operation, action))
+  );
+  if (partial) {
+    const missing = actions.flatMap((action, i) =>
+      contains(partial.operation, action) ? [] : [i + 1]
+    );
+    return {
+      status: 'mismatch',
+      proposalId: partial.proposal.proposalId,
+      message: `Executed call(s) ${missing.join(', ')} of ${actions.length} aren't actions of stored proposal ${partial.proposal.proposalId}`,
+    };
+  }
+  return {
+    status: 'not-found',
+    message: `No stored proposal contains the executed ${getChainName(chainID)} call${actions.length === 1 ? '' : 's'}`,
+  };
+};
+
+function resolveGovernorCall(
+  tx: TransactionResponse,
+  governor: GovernorConfig,
+  proposals: ProposalCalls[]
+): ResolvedTransaction | undefined {
+  const iface = new Interface(governorABI);
+  const fragment = iface.getFunction(tx.data.slice(0, 10));
+  if (!fragment || !['propose', 'queue', 'execute'].includes(fragment.name)) return undefined;
+
+  const [targets, rawValues, calldatas, descriptionOrHash] = iface.decodeFunctionData(
+    fragment,
+    tx.data
+  );
+  const values: string[] = rawValues.map((value: bigint) => value.toString());
+  const descriptionHash = fragment.name === 'propose' ? id(descriptionOrHash) : descriptionOrHash;
+  const proposalId = hashProposal(targets, values, calldatas, descriptionHash);
+
+  const kinds: Record<string, TransactionKind> = {
+    propose: 'proposal-created',
+    queue: 'proposal-queued',
+    execute: 'proposal-executed',
+  };
+  return {
+    kind: kinds[fragment.name],
+    txHash: tx.hash,
+    chainID: governor.chainID,
+    governor: governor.id,
+    proposalId,
+    operations: governor.decode === 'core' ? getOperations(targets, calldatas) : [],
+    actions: decodeStoredProposal({ targets, values, calldatas }, governor.id),
+    crossCheck: crossCheckProposal(
+      proposals,
+      proposalId,
+      descriptionHash,
+      targets,
+      values,
+      calldatas
+    ),
+  };
+}
+
+// The delay isn't part of execute's arguments (or the operation id), so the configured one is assumed
+const toScheduleCalldata = (timelock: Interface, name: string, args: readonly unknown[]) =>
+  timelock.encodeFunctionData(name === 'executeBatch' ? 'scheduleBatch' : 'schedule', [
+    ...args,
+    config.l1TimelockDelay,
+  ]);
+
+function resolveL1Call(
+  tx: TransactionResponse,
+  proposals: Record<GovernorId, ProposalCalls[]>
+): ResolvedTransaction | undefined {
+  let operation: L1TimelockOperation | undefined;
+  let kind: TransactionKind | undefined;
+
+  if (sameAddress(tx.to, config.outbox)) {
+    const outbox = new Interface(outboxABI);
+    const [, , , to, , , , , data] = outbox.decodeFunctionData('executeTransaction', tx.data);
+    if (!sameAddress(to, config.l1Timelock)) return undefined;
+    operation = decodeL1TimelockOperation(data);
+    kind = 'l1-timelock-scheduled';
+  } else if (sameAddress(tx.to, config.l1Timelock)) {
+    const timelock = new Interface(l1TimelockABI);
+    const fragment = timelock.getFunction(tx.data.slice(0, 10));
+    if (!fragment || !['execute', 'executeBatch'].includes(fragment.name)) return undefined;
+    const args = timelock.decodeFunctionData(fragment, tx.data);
+    operation = decodeL1TimelockOperation(toScheduleCalldata(timelock, fragment.name, [...args]));
+    kind = 'l1-timelock-executed';
+  }
+  if (!operation || !kind) return undefined;
+
+  const crossCheck = crossCheckOperation(getCoreProposals(proposals), operation);
+  return {
+    kind,
+    txHash: tx.hash,
+    chainID: 1,
+    governor: findProposalGovernor(proposals, crossCheck.proposalId),
+    proposalId: crossCheck.proposalId,
+    operations: [operation],
+    actions: operation.actions,
+    crossCheck,
+  };
+}
+
+// A manual ArbRetryableTx.redeem schedules the retry tx that makes the actual call
+async function getRedeemedTransaction(
+  provider: Provider,
+  txHash: string
+): Promise<TransactionResponse> {
+  const receipt = await provider.getTransactionReceipt(txHash);
+  const iface = new Interface(arbRetryableTxABI);
+  const scheduled = receipt?.logs
+    .filter(log => sameAddress(log.address, arbRetryableTx))
+    .map(log => iface.parseLog(log))
+    .find(log => log?.name === 'RedeemScheduled');
+  if (!scheduled) throw new Error(`Redeem ${txHash} didn't schedule a retry tx`);
+
+  const retryTx = await provider.getTransaction(scheduled.args.retryTxHash);
+  if (!retryTx) throw new Error(`Retry tx ${scheduled.args.retryTxHash} not found`);
+  return retryTx;
+}
+
+function resolveL2Call(
+  tx: TransactionResponse,
+  chainID: number,
+  proposals: Record<GovernorId, ProposalCalls[]>
+): ResolvedTransaction | undefined {
+  const chain = config.chains.find(entry => entry.chainID === chainID);
+  if (chain && sameAddress(tx.to, chain.upgradeExecutorAddress)) {
+    const actions = decodeUpgradeExecutorCall(tx.data, chainID);
+    const crossCheck = crossCheckL2Actions(getCoreProposals(proposals), actions, chainID);
+    return {
+      kind: 'retryable-redeem',
+      txHash: tx.hash,
+      chainID,
+      governor: findProposalGovernor(proposals, crossCheck.proposalId),
+      proposalId: crossCheck.proposalId,
+      operations: [],
+      actions,
+      crossCheck,
+    };
+  }
+  return undefined;
+}
+
+// Security Council Safes sit on L1 as well as the L2s
+function resolveCouncilCall(
+  tx: TransactionResponse,
+  chainID: number
+): ResolvedTransaction | undefined {
+  const execTransaction = new Interface(gnosisSafeABI).getFunction('execTransaction')!;
+  if (tx.data.slice(0, 10) !== execTransaction.selector) return undefined;
+  return {
+    kind: 'security-council',
+    txHash: tx.hash,
+    chainID,
+    operations: [],
+    actions: decodeSecurityCouncilTransaction(tx.data, chainID),
+  };
+}
+
+const defaultChainIDs = () => [
+  ...new Set([
+    ...config.governors.map(governor => governor.chainID),
+    1,
+    ...config.chains.map(chain => chain.chainID),
+  ]),
+];
+
+async function findTransaction(
+  txHash: string,
+  chainIDs: number[],
+  getProvider: (chainID: number) => Provider | undefined
+): Promise<{ provider: Provider; tx: TransactionResponse; chainID: number }> {
+  const searched: string[] = [];
+  const unreachable: string[] = [];
+  for (const chainID of chainIDs) {
+    const provider = getProvider(chainID);
+    if (!provider) continue;
+    try {
+      const tx = await provider.getTransaction(txHash);
+      if (tx) return { provider, tx, chainID };
+      searched.push(getChainName(chainID));
+    } catch {
+      // An unreachable RPC shouldn't stop us looking on the other chains
+      unreachable.push(getChainName(chainID));
+    }
+  }
+  const notFound = searched.length ? ` not found on ${searched.join(', ')}` : ' not found';
+  const failed = unreachable.length ? ` (couldn't reach ${unreachable.join(', ')})` : '';
+  throw new Error(`Transaction ${txHash}${notFound}${failed}`);
+}
+
+// A tx found on-chain, with manual redeems already followed to the retry tx they scheduled
+export interface FetchedTransaction {
+  tx: TransactionResponse;
+  chainID: number;
+}
+
+// The RPC part of resolveTransaction; what it returns doesn't depend on the stored proposals
+export async function fetchTransaction(
+  txHash: string,
+  options: Pick<ResolveOptions, 'chainIDs' | 'getProvider'> = {}
+): Promise<FetchedTransaction> {
+  const getProvider = options.getProvider ?? getNetworkProvider;
+  const { provider, tx, chainID } = await findTransaction(
+    txHash,
+    options.chainIDs ?? defaultChainIDs(),
+    getProvider
+  );
+  let fetched = tx;
+  while (chainID !== 1 && sameAddress(fetched.to, arbRetryableTx)) {
+    fetched = await getRedeemedTransaction(provider, fetched.hash);
+  }
+  return { tx: fetched, chainID };
+}
+
+// Decodes a fetched tx and checks the executed calldata against the stored proposals; cheap
+// enough to run again whenever the stored proposals change
+export function resolveFetchedTransaction(
+  { tx, chainID }: FetchedTransaction,
+  proposals: Record<GovernorId, ProposalCalls[]>
+): ResolvedTransaction {
+  const governor = findGovernorByAddress(chainID, tx.to);
+  let resolved: ResolvedTransaction | undefined;
+  if (governor) {
+    resolved = resolveGovernorCall(tx, governor, proposals[governor.id] ?? []);
+  } else if (chainID === 1) {
+    resolved = resolveL1Call(tx, proposals);
+  } else {
+    resolved = resolveL2Call(tx, chainID, proposals);
+  }
+
+  resolved ??= resolveCouncilCall(tx, chainID);
+  if (!resolved) {
+    throw new Error(
+      `Transaction ${tx.hash} on ${getChainName(chainID)} isn't a governance tx this decoder understands`
+    );
+  }
+  return resolved;
+}
+
+// Looks a governance tx up on-chain, decodes the proposal or operation it belongs to and
+// checks the executed calldata against the stored proposals
+export async function resolveTransaction(
+  txHash: string,
+  options: ResolveOptions
+): Promise<ResolvedTransaction> {
+  return resolveFetchedTransaction(await fetchTransaction(txHash, options), options.proposals);
+}
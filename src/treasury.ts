@@ -0,0 +1,214 @@
+import { formatUnits } from 'ethers';
+import { config, findToken, getNetwork } from './config';
+import { forEachCall, type DecodedCall, type DecodedParam } from './decodedCall';
+import type { Action } from './index';
+import { decodeKnownCall } from './registry';
+
+export type TreasuryFlowKind = 'transfer' | 'approval' | 'vesting' | 'stream' | 'bridge';
+
+// Funds a call moves out of the account executing it, or for approvals lets someone else move
+export interface TreasuryFlow {
+  kind: TreasuryFlowKind;
+  chainID: number; // where the funds leave from
+  token?: string; // unset for ETH
+  symbol?: string; // from the network's token registry; unset for tokens it doesn't list
+  decimals?: number;
+  amount: string; // base units
+  recipient: string; // recipient, spender, vesting/stream beneficiary or bridge destination
+  destinationChainID?: number; // bridges only
+}
+
+// Everything a proposal sends of one token on one chain
+export interface TreasuryOutflow {
+  chainID: number;
+  token?: string;
+  symbol?: string;
+  decimals?: number;
+  amount: string;
+}
+
+const sameAddress = (a: string | undefined, b: string) => a?.toLowerCase() === b.toLowerCase();
+
+// The treasury wallet and governor timelocks, e.g. the wallet funding the timelock for a vesting
+// plan the timelock then creates
+export const isTreasuryAccount = (chainID: number, address: string) =>
+  (chainID === 42161 && sameAddress(address, config.treasuryWallet)) ||
+  config.governors.some(
+    governor => governor.chainID === chainID && sameAddress(address, governor.timelock)
+  );
+
+// Funds leaving the DAO: approvals only allow a spend (the vesting or stream using them is what
+// moves the funds), and moves between the DAO's own accounts would be counted twice
+export const isOutflow = (flow: TreasuryFlow) =>
+  flow.kind !== 'approval' &&
+  !(flow.kind === 'transfer' && isTreasuryAccount(flow.chainID, flow.recipient));
+
+const ethFlow = (
+  kind: TreasuryFlowKind,
+  chainID: number,
+  amount: string,
+  recipient: string
+): TreasuryFlow => ({ kind, chainID, symbol: 'ETH', decimals: 18, amount, recipient });
+
+const tokenFlow = (
+  kind: TreasuryFlowKind,
+  chainID: number,
+  token: string,
+  amount: string,
+  recipient: string
+): TreasuryFlow => {
+  const known = findToken(chainID, token);
+  return {
+    kind,
+    chainID,
+    token,
+    symbol: known?.symbol,
+    decimals: known?.decimals,
+    amount,
+    recipient,
+  };
+};
+
+const param = (params: DecodedParam[] | undefined, name: string) =>
+  params?.find(entry => entry.name === name)?.value;
+
+// The chain a gateway router sends tokens to: a child chain's router withdraws to its parent,
+// the parent chain's router deposits to the child
+const getRouterDestination = (chainID: number, router: string): number | undefined => {
+  for (const network of config.networks) {
+    const bridge = network.bridge;
+    if (!bridge || !network.parentChainID) continue;
+    if (network.chainID === chainID && sameAddress(bridge.l2GatewayRouter, router)) {
+      return network.parentChainID;
+    }
+    if (network.parentChainID === chainID && sameAddress(bridge.l1GatewayRouter, router)) {
+      return network.chainID;
+    }
+  }
+  return undefined;
+};
+
+// Withdrawals name the token by its parent chain address; flows are keyed by the local one
+const toLocalToken = (chainID: number, parentChainID: number, parentToken: string): string => {
+  const symbol = findToken(parentChainID, parentToken)?.symbol;
+  const local = getNetwork(chainID)?.tokens.find(token => token.symbol === symbol);
+  return local?.address ?? parentToken;
+};
+
+const bridgeFlow = (
+  chainID: number,
+  router: string | undefined,
+  token: string,
+  amount: string,
+  recipient: string
+): TreasuryFlow[] => {
+  const destinationChainID = router && getRouterDestination(chainID, router);
+  if (!destinationChainID) return [];
+  const withdrawal = getNetwork(chainID)?.parentChainID === destinationChainID;
+  const localToken = withdrawal ? toLocalToken(chainID, destinationChainID, token) : token;
+  return [{ ...tokenFlow('bridge', chainID, localToken, amount, recipient), destinationChainID }];
+};
+
+// The flows of a single call (not the calls nested in it) made against target on chainID
+export function getCallFlows(
+  call: DecodedCall,
+  target: string | undefined,
+  chainID: number
+): TreasuryFlow[] {
+  const values = call.params.map(entry => entry.value);
+  switch (call.signature) {
+    case 'transfer(address,address,uint256)': // treasury wallet
+      return [tokenFlow('transfer', chainID, values[0], values[2], values[1])];
+    case 'sendETH(address,uint256)':
+      return [ethFlow('transfer', chainID, values[1], values[0])];
+    case 'transfer(address,uint256)':
+      return target ? [tokenFlow('transfer', chainID, target, values[1], values[0])] : [];
+    case 'approve(address,uint256)':
+      return target ? [tokenFlow('approval', chainID, target, values[1], values[0])] : [];
+    case 'outboundTransfer(address,address,uint256,bytes)':
+    case 'outboundTransfer(address,address,uint256,uint256,uint256,bytes)':
+      return bridgeFlow(chainID, target, values[0], values[2], values[1]);
+    case 'outboundTransferCustomRefund(address,address,address,uint256,uint256,uint256,bytes)':
+      return bridgeFlow(chainID, target, values[0], values[3], values[2]);
+  }
+
+  switch (call.name) {
+    // Hedgey: one plan per recipient, funded from the caller's approval
+    case 'batchVestingPlans':
+    case 'batchLockingPlans': {
+      const plans = call.params.find(entry => entry.name === 'plans')?.components ?? [];
+      return plans.map(plan =>
+        tokenFlow(
+          'vesting',
+          chainID,
+          values[1],
+          param(plan.components, 'amount') ?? '0',
+          param(plan.components, 'recipient') ?? ''
+        )
+      );
+    }
+    // Sablier LockupLinear: a single params struct
+    case 'createWithDurations':
+    case 'createWithRange':
+    case 'createWithTimestamps': {
+      const stream = call.params[0]?.components;
+      const asset = param(stream, 'asset');
+      const amount = param(stream, 'totalAmount');
+      if (!asset || !amount) return [];
+      return [tokenFlow('stream', chainID, asset, amount, param(stream, 'recipient') ?? '')];
+    }
+  }
+  return [];
+}
+
+// ETH sent with the action (a plain transfer, or a withdrawal through ArbSys) and every flow of
+// the calls in it
+export function getTreasuryFlows(
+  action: Action,
+  call: DecodedCall | undefined = action.decodedCall ??
+    decodeKnownCall(action.callData, action.address, action.chainID)
+): TreasuryFlow[] {
+  const flows: TreasuryFlow[] = [];
+  if (action.value) {
+    const parentChainID = getNetwork(action.chainID)?.parentChainID;
+    const withdrawal =
+      call?.name === 'withdrawEth' && sameAddress(action.address, config.arbSys) && parentChainID;
+    flows.push(
+      withdrawal
+        ? {
+            ...ethFlow('bridge', action.chainID, action.value, call.params[0].value),
+            destinationChainID: parentChainID,
+          }
+        : ethFlow('transfer', action.chainID, action.value, action.address)
+    );
+  }
+
+  if (call) {
+    const target = action.type === 'CALL' ? action.address : undefined;
+    forEachCall(call, target, (nested, nestedTarget) =>
+      flows.push(...getCallFlows(nested, nestedTarget, action.chainID))
+    );
+  }
+  return flows;
+}
+
+// Per-proposal totals of what leaves the treasury, by chain and token in order of appearance
+export function getTreasuryOutflows(actions: Action[]): TreasuryOutflow[] {
+  const totals = new Map<string, TreasuryOutflow>();
+  for (const flow of actions.flatMap(action => getTreasuryFlows(action)).filter(isOutflow)) {
+    const key = `${flow.chainID}:${flow.token?.toLowerCase() ?? 'ETH'}`;
+    const total = totals.get(key);
+    if (total) {
+      total.amount = (BigInt(total.amount) + BigInt(flow.amount)).toString();
+    } else {
+      const { chainID, token, symbol, decimals, amount } = flow;
+      totals.set(key, { chainID, token, symbol, decimals, amount });
+    }
+  }
+  return [...totals.values()];
+}
+
+export const formatTreasuryAmount = ({ token, symbol, decimals, amount }: TreasuryOutflow) =>
+  symbol && decimals !== undefined
+    ? `${formatUnits(amount, decimals)} ${symbol}`
+    : `${amount} base units of token ${token}`;
@@ -0,0 +1,156 @@
+import { Contract, ZeroAddress, dataSlice, getAddress, type Provider } from 'ethers';
+import { forEachCall, type DecodedCall, type DecodedParam } from './decodedCall';
+import type { Action } from './index';
+import { getChainBackend, type StorageSource } from './backends';
+import { getNetworkProvider } from './provider';
+
+// EIP-1967 storage slots
+export const IMPLEMENTATION_SLOT =
+  '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+export const BEACON_SLOT = '0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50';
+
+// 'upgradeTo' covers both UUPS proxies and UpgradeableBeacons until the target is read on-chain
+export type UpgradeKind = 'proxyAdmin' | 'upgradeTo' | 'uups' | 'beacon';
+
+export interface ProxyUpgrade {
+  kind: UpgradeKind;
+  chainID: number;
+  proxy: string; // the beacon itself for beacon upgrades
+  admin?: string; // the ProxyAdmin called, for ProxyAdmin upgrades
+  newImplementation: string;
+  initializer?: {
+    callData: string;
+    decodedCall?: DecodedCall;
+  };
+}
+
+export interface UpgradeSummary extends ProxyUpgrade {
+  oldImplementation?: string; // undefined if it couldn't be read
+  alreadyApplied: boolean; // the proxy already points at the new implementation
+}
+
+const initializerFrom = (param: DecodedParam | undefined) =>
+  param && param.value !== '0x' ? { callData: param.value, decodedCall: param.call } : undefined;
+
+const toUpgrade = (
+  call: DecodedCall,
+  target: string | undefined,
+  chainID: number
+): ProxyUpgrade | undefined => {
+  const [first, second, third] = call.params;
+  switch (call.signature) {
+    case 'upgrade(address,address)':
+    case 'upgradeAndCall(address,address,bytes)':
+      return {
+        kind: 'proxyAdmin',
+        chainID,
+        proxy: first.value,
+        admin: target,
+        newImplementation: second.value,
+        initializer: initializerFrom(third),
+      };
+    case 'upgradeTo(address)':
+    case 'upgradeToAndCall(address,bytes)':
+      if (!target) return undefined;
+      return {
+        kind: 'upgradeTo',
+        chainID,
+        proxy: target,
+        newImplementation: first.value,
+        initializer: initializerFrom(second),
+      };
+  }
+};
+
+// Proxy upgrades in an action's decoded call. A DELEGATECALL runs in the executor's context,
+// so only nested calls (e.g. executeCall payloads) have a known target there
+export function findProxyUpgrades(
+  action: Action,
+  call: DecodedCall | undefined = action.decodedCall
+): ProxyUpgrade[] {
+  if (!call) return [];
+  const upgrades: ProxyUpgrade[] = [];
+  const target = action.type === 'CALL' ? action.address : undefined;
+  forEachCall(call, target, (nested, nestedTarget) => {
+    const upgrade = toUpgrade(nested, nestedTarget, action.chainID);
+    if (upgrade) upgrades.push(upgrade);
+  });
+  return upgrades;
+}
+
+const readAddressSlot = async (storage: StorageSource, address: string, slot: string) => {
+  const value = getAddress(dataSlice(await storage.getStorage(address, slot), 12));
+  return value === ZeroAddress ? undefined : value;
+};
+
+const readBeaconImplementation = async (provider: Provider, beacon: string) => {
+  const contract = new Contract(
+    beacon,
+    ['function implementation() view returns (address)'],
+    provider
+  );
+  return getAddress(await contract.implementation());
+};
+
+// Current implementation of an EIP-1967 (or beacon) proxy, or of an UpgradeableBeacon
+async function readImplementation(
+  provider: Provider,
+  storage: StorageSource,
+  upgrade: ProxyUpgrade
+): Promise<{ kind: UpgradeKind; implementation: string }> {
+  const implementation = await readAddressSlot(storage, upgrade.proxy, IMPLEMENTATION_SLOT);
+  const kind = upgrade.kind === 'upgradeTo' ? 'uups' : upgrade.kind;
+  if (implementation) return { kind, implementation };
+
+  const beacon = await readAddressSlot(storage, upgrade.proxy, BEACON_SLOT);
+  if (beacon) return { kind, implementation: await readBeaconImplementation(provider, beacon) };
+
+  // No proxy slots: upgradeTo was sent to the beacon itself
+  return {
+    kind: 'beacon',
+    implementation: await readBeaconImplementation(provider, upgrade.proxy),
+  };
+}
+
+// Fills in the old implementation of each upgrade from chain state; read failures leave it unset.
+// Proxy slots are read through the chain's storage backend, beacons through the provider
+export async function getUpgradeSummaries(
+  upgrades: ProxyUpgrade[],
+  getProvider: (chainID: number) => Provider | undefined = getNetworkProvider,
+  getStorageSource: (chainID: number) => StorageSource = getChainBackend
+): Promise<UpgradeSummary[]> {
+  // One provider per chain; the ones created here are destroyed when done, a caller's are its own
+  const providers = new Map<number, Provider | undefined>();
+  const getChainProvider = (chainID: number) => {
+    if (!providers.has(chainID)) providers.set(chainID, getProvider(chainID));
+    return providers.get(chainID);
+  };
+
+  try {
+    return await Promise.all(
+      upgrades.map(async upgrade => {
+        const provider = getChainProvider(upgrade.chainID);
+        try {
+          if (!provider) throw new Error(`No RPC for chain ${upgrade.chainID}`);
+          const { kind, implementation } = await readImplementation(
+            provider,
+            getStorageSource(upgrade.chainID),
+            upgrade
+          );
+          return {
+            ...upgrade,
+            kind,
+            oldImplementation: implementation,
+            alreadyApplied: implementation === getAddress(upgrade.newImplementation),
+          };
+        } catch {
+          return { ...upgrade, alreadyApplied: false };
+        }
+      })
+    );
+  } finally {
+    if (getProvider === getNetworkProvider) {
+      for (const provider of providers.values()) provider?.destroy();
+    }
+  }
+}
@@ -0,0 +1,210 @@
+import { AbiCoder, Interface, getBytes, keccak256, type Provider } from 'ethers';
+import { getChainBackend } from './backends';
+import type { Action } from './index';
+import { getNetworkProvider } from './provider';
+
+// Runtime bytecode hashes of action contracts we've reviewed, kept in data/action-contract-hashes.json
+export interface ExpectedCodeHash {
+  chainID: number;
+  address: string;
+  codeHash: string;
+  name?: string;
+}
+
+export interface VerifiedSource {
+  name: string;
+  files: Record<string, string>; // path -> content; a single unnamed file for flat sources
+  abi: string;
+  constructorArguments: string; // hex, no 0x prefix (as explorers return it)
+}
+
+export interface ImmutableAddress {
+  name: string;
+  value: string;
+}
+
+export type CodeHashStatus = 'match' | 'mismatch' | 'unlisted' | 'unavailable';
+
+export interface ActionContractVerification {
+  chainID: number;
+  address: string;
+  verified: boolean;
+  contractName?: string;
+  performBody?: string;
+  immutables: ImmutableAddress[]; // addresses passed to the constructor, usually kept as immutables
+  codeHash?: string;
+  expectedCodeHash?: string;
+  codeHashStatus: CodeHashStatus;
+  selfdestruct: boolean;
+  issues: string[];
+}
+
+export interface VerificationOptions {
+  expected: ExpectedCodeHash[];
+  apiKey?: string; // explorer API key, for etherscan-flavoured APIs
+  getProvider?: (chainID: number) => Provider | undefined;
+  fetchSource?: (address: string, chainID: number) => Promise<VerifiedSource | null>;
+}
+
+// Through the chain's backends (see backends.ts): its explorer, Sourcify, or both
+export function fetchVerifiedSource(
+  address: string,
+  chainID: number,
+  apiKey = ''
+): Promise<VerifiedSource | null> {
+  return getChainBackend(chainID, { apiKey }).getSource(address);
+}
+
+// Returns the text of perform() up to its matching closing brace; comments and strings
+// containing braces can throw this off, which is fine for display
+export function extractPerformBody(files: Record<string, string>): string | undefined {
+  for (const content of Object.values(files)) {
+    const match = /function\s+perform\s*\(/.exec(content);
+    if (!match) continue;
+
+    const open = content.indexOf('{', match.index);
+    if (open === -1) continue;
+    let depth = 0;
+    for (let i = open; i < content.length; i++) {
+      if (content[i] === '{') depth++;
+      if (content[i] === '}' && --depth === 0) return content.slice(match.index, i + 1);
+    }
+  }
+  return undefined;
+}
+
+export function extractImmutableAddresses(source: VerifiedSource): ImmutableAddress[] {
+  if (!source.constructorArguments) return [];
+  try {
+    const inputs = new Interface(source.abi).deploy.inputs;
+    const decoded = AbiCoder.defaultAbiCoder().decode(inputs, `0x${source.constructorArguments}`);
+    return inputs.flatMap((input, i) => {
+      const name = input.name || `arg${i}`;
+      if (input.type === 'address') return [{ name, value: decoded[i] }];
+      if (input.type === 'address[]') {
+        return (decoded[i] as string[]).map((value, j) => ({ name: `${name}[${j}]`, value }));
+      }
+      return [];
+    });
+  } catch {
+    return [];
+  }
+}
+
+const SELFDESTRUCT = 0xff;
+const PUSH1 = 0x60;
+const PUSH32 = 0x7f;
+
+// Walks the opcodes so PUSH data isn't mistaken for SELFDESTRUCT; the trailing CBOR metadata
+// (length in the last two bytes) is skipped for the same reason
+export function hasSelfdestruct(runtimeCode: string): boolean {
+  const code = getBytes(runtimeCode);
+  if (code.length < 2) return false;
+
+  const metadataLength = (code[code.length - 2] << 8) + code[code.length - 1];
+  const end = metadataLength + 2 <= code.length ? code.length - metadataLength - 2 : code.length;
+
+  for (let i = 0; i < end; i++) {
+    const opcode = code[i];
+    if (opcode === SELFDESTRUCT) return true;
+    if (opcode >= PUSH1 && opcode <= PUSH32) i += opcode - PUSH1 + 1;
+  }
+  return false;
+}
+
+// Dependencies (OZ etc.) are left out; their docs mention selfdestruct a lot
+export const projectFiles = (files: Record<string, string>): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(files).filter(
+      ([path]) => !path.startsWith('node_modules/') && !path.startsWith('@')
+    )
+  );
+
+const callsSelfdestruct = (content: string) =>
+  /\bselfdestruct\s*\(/.test(content.replace(/\/\*[\s\S]*?\*\/|\/\/.*$/gm, ''));
+
+const findExpected = (expected: ExpectedCodeHash[], chainID: number, address: string) =>
+  expected.find(
+    entry => entry.chainID === chainID && entry.address.toLowerCase() === address.toLowerCase()
+  );
+
+export async function verifyActionContract(
+  action: Action,
+  options: VerificationOptions
+): Promise<ActionContractVerification> {
+  const { chainID, address } = action;
+  const getProvider = options.getProvider ?? getNetworkProvider;
+  const fetchSource =
+    options.fetchSource ?? ((addr, chain) => fetchVerifiedSource(addr, chain, options.apiKey));
+  const issues: string[] = [];
+
+  let source: VerifiedSource | null = null;
+  try {
+    source = await fetchSource(address, chainID);
+    if (!source) issues.push('Action contract source is not verified');
+  } catch {
+    issues.push('Could not fetch the action contract source');
+  }
+
+  const expectedCodeHash = findExpected(options.expected, chainID, address)?.codeHash;
+  let codeHash: string | undefined;
+  let selfdestruct = false;
+  try {
+    const provider = getProvider(chainID);
+    if (!provider) throw new Error(`No RPC for chain ${chainID}`);
+    const code = await provider.getCode(address);
+    if (code === '0x') {
+      issues.push('No code deployed at the action contract address');
+    } else {
+      codeHash = keccak256(code);
+      selfdestruct = hasSelfdestruct(code);
+    }
+  } catch {
+    issues.push('Could not fetch the runtime bytecode');
+  }
+
+  // Source is checked too, since the opcode scan can't see through delegatecalls it makes
+  if (source && Object.values(projectFiles(source.files)).some(callsSelfdestruct)) {
+    selfdestruct = true;
+  }
+  if (selfdestruct) issues.push('Action contract can SELFDESTRUCT');
+
+  let codeHashStatus: CodeHashStatus = 'unavailable';
+  if (codeHash) {
+    if (!expectedCodeHash) codeHashStatus = 'unlisted';
+    else codeHashStatus = codeHash === expectedCodeHash.toLowerCase() ? 'match' : 'mismatch';
+  }
+  if (codeHashStatus === 'mismatch') {
+    issues.push(`Runtime bytecode hash ${codeHash} doesn't match the expected ${expectedCodeHash}`);
+  }
+  // Nothing vouches for a contract that isn't listed, so it's flagged until it has been reviewed
+  if (codeHashStatus === 'unlisted') {
+    issues.push(`Runtime bytecode hash ${codeHash} isn't in the list of reviewed action contracts`);
+  }
+
+  return {
+    chainID,
+    address,
+    verified: !!source,
+    contractName: source?.name,
+    performBody: source ? extractPerformBody(source.files) : undefined,
+    immutables: source ? extractImmutableAddresses(source) : [],
+    codeHash,
+    expectedCodeHash,
+    codeHashStatus,
+    selfdestruct,
+    issues,
+  };
+}
+
+// Checks every DELEGATECALL action; other actions have nothing to verify
+export function verifyActionContracts(
+  actions: Action[],
+  options: VerificationOptions
+): Promise<ActionContractVerification[]> {
+  return Promise.all(
+    actions
+      .filter(action => action.type === 'DELEGATECALL')
+      .map(action => verifyActionContract(action, options))
+  );
+}
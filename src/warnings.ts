@@ -0,0 +1,231 @@
+import { formatEther, formatUnits, parseUnits } from 'ethers';
+import { config } from './config';
+import { forEachCall, type DecodedCall } from './decodedCall';
+import type { Action } from './index';
+import { arbOwner, decodeKnownCall, getKnownContract } from './registry';
+import { getTreasuryFlows } from './treasury';
+
+export type WarningSeverity = 'info' | 'warning' | 'critical';
+
+// Ordered lowest to highest
+export const warningSeverities: WarningSeverity[] = ['info', 'warning', 'critical'];
+
+export type WarningCode =
+  | 'retryable-l2-call-value'
+  | 'retryable-gas-limit'
+  | 'unknown-target'
+  | 'value-to-contract'
+  | 'large-treasury-transfer'
+  | 'arbowner-call'
+  | 'governor-parameter-change'
+  | 'ownership-change'
+  | 'unknown-chain';
+
+export interface ActionWarning {
+  code: WarningCode;
+  severity: WarningSeverity;
+  message: string;
+}
+
+export interface WarningRuleOptions {
+  // Whole-token amounts (keyed by symbol, ETH for native value) above which a transfer is flagged
+  largeTransferThresholds: Record<string, string>;
+}
+
+export const defaultWarningRuleOptions: WarningRuleOptions = {
+  largeTransferThresholds: {
+    ETH: '1000',
+    WETH: '1000',
+    ARB: '5000000',
+    USDC: '1000000',
+    'USDC.e': '1000000',
+    USDT: '1000000',
+  },
+};
+
+type WarningRule = (
+  action: Action,
+  call: DecodedCall | undefined,
+  options: WarningRuleOptions
+) => ActionWarning[];
+
+const sameAddress = (a: string | undefined, b: string) => a?.toLowerCase() === b.toLowerCase();
+
+// Each nested call paired with the address it runs against; a DELEGATECALL's top-level call
+// runs in the executor's context so it has no target of its own
+const getCalls = (action: Action, call: DecodedCall | undefined) => {
+  const calls: { call: DecodedCall; target?: string }[] = [];
+  if (call) {
+    const target = action.type === 'CALL' ? action.address : undefined;
+    forEachCall(call, target, (nested, nestedTarget) =>
+      calls.push({ call: nested, target: nestedTarget })
+    );
+  }
+  return calls;
+};
+
+const unknownTarget: WarningRule = (action, call) => {
+  if (action.type !== 'CALL' || !action.address) return [];
+  if (getKnownContract(action.chainID, action.address) || call) return [];
+  return [
+    {
+      code: 'unknown-target',
+      severity: 'warning',
+      message: `Target ${action.address} isn't a known contract and its calldata couldn't be decoded`,
+    },
+  ];
+};
+
+const valueToContract: WarningRule = action => {
+  if (!action.value || !action.callData || action.callData === '0x') return [];
+  return [
+    {
+      code: 'value-to-contract',
+      severity: 'warning',
+      message: `Sends ${formatEther(action.value)} ETH along with a contract call`,
+    },
+  ];
+};
+
+const isAboveThreshold = (
+  amount: bigint,
+  symbol: string,
+  decimals: number,
+  options: WarningRuleOptions
+) => {
+  const threshold = options.largeTransferThresholds[symbol];
+  return threshold !== undefined && amount > parseUnits(threshold, decimals);
+};
+
+const largeTransferWarning = (amount: bigint, symbol: string, decimals: number): ActionWarning => ({
+  code: 'large-treasury-transfer',
+  severity: 'warning',
+  message: `Transfers ${formatUnits(amount, decimals)} ${symbol}, above the large transfer threshold`,
+});
+
+// Everything the action sends, including vesting, streams and bridging; approvals alone don't
+const largeTreasuryTransfer: WarningRule = (action, call, options) =>
+  getTreasuryFlows(action, call)
+    .filter(flow => flow.kind !== 'approval')
+    .flatMap(({ symbol, decimals, amount }) =>
+      symbol &&
+      decimals !== undefined &&
+      isAboveThreshold(BigInt(amount), symbol, decimals, options)
+        ? [largeTransferWarning(BigInt(amount), symbol, decimals)]
+        : []
+    );
+
+const arbOwnerCall: WarningRule = (action, call) => {
+  const names = getCalls(action, call)
+    .filter(({ target }) => sameAddress(target, arbOwner))
+    .map(({ call: nested }) => nested.name);
+  if (!names.length && action.type === 'CALL' && sameAddress(action.address, arbOwner)) {
+    names.push('undecoded call');
+  }
+  return names.map(name => ({
+    code: 'arbowner-call',
+    severity: 'critical',
+    message: `Calls the ArbOwner precompile (${name}), which changes chain-level parameters`,
+  }));
+};
+
+const governorParameterFunctions = [
+  'setVotingDelay',
+  'setVotingPeriod',
+  'setProposalThreshold',
+  'updateQuorumNumerator',
+  'setLateQuorumVoteExtension',
+  'updateTimelock',
+];
+
+const governorParameterChange: WarningRule = (action, call) => {
+  const governors = config.networks.flatMap(network => network.governors);
+  return getCalls(action, call)
+    .filter(({ call: nested }) => governorParameterFunctions.includes(nested.name))
+    .map(({ call: nested, target }) => {
+      const governor = governors.find(entry => sameAddress(target, entry.address));
+      return {
+        code: 'governor-parameter-change',
+        severity: 'critical',
+        message: `Changes ${governor?.name ?? 'a governor'}'s voting parameters: ${nested.name}(${nested.params.map(param => param.value).join(', ')})`,
+      };
+    });
+};
+
+const ownershipFunctions = [
+  'transferOwnership',
+  'renounceOwnership',
+  'grantRole',
+  'revokeRole',
+  'renounceRole',
+  'changeProxyAdmin',
+  'setOwner',
+  'addOwnerWithThreshold',
+  'removeOwner',
+  'swapOwner',
+  'changeThreshold',
+  'addChainOwner',
+  'removeChainOwner',
+];
+
+const ownershipChange: WarningRule = (action, call) =>
+  getCalls(action, call)
+    .filter(({ call: nested }) => ownershipFunctions.includes(nested.name))
+    .map(({ call: nested, target }) => ({
+      code: 'ownership-change',
+      severity: 'warning',
+      message: `Changes ownership or roles${target ? ` on ${getKnownContract(action.chainID, target)?.name ?? target}` : ''}: ${nested.name}`,
+    }));
+
+const unknownChain: WarningRule = action => {
+  if (action.chainID === 1 || config.chains.some(chain => chain.chainID === action.chainID)) {
+    return [];
+  }
+  return [
+    {
+      code: 'unknown-chain',
+      severity: 'critical',
+      message: `Chain ${action.chainID} isn't one of the chains configured for governance`,
+    },
+  ];
+};
+
+const rules: WarningRule[] = [
+  unknownTarget,
+  valueToContract,
+  largeTreasuryTransfer,
+  arbOwnerCall,
+  governorParameterChange,
+  ownershipChange,
+  unknownChain,
+];
+
+export function checkAction(
+  action: Action,
+  options: WarningRuleOptions = defaultWarningRuleOptions
+): ActionWarning[] {
+  const call =
+    action.decodedCall ?? decodeKnownCall(action.callData, action.address, action.chainID);
+  return rules.flatMap(rule => rule(action, call, options));
+}
+
+// Appends rule warnings to whatever the decoder already flagged (e.g. retryable issues)
+export function applyWarningRules(
+  actions: Action[],
+  options: WarningRuleOptions = defaultWarningRuleOptions
+): Action[] {
+  return actions.map(action => {
+    const warnings = [...(action.warnings ?? []), ...checkAction(action, options)];
+    return warnings.length ? { ...action, warnings } : action;
+  });
+}
+
+export function getHighestSeverity(actions: Action[]): WarningSeverity | undefined {
+  const severities = actions
+    .flatMap(action => action.warnings ?? [])
+    .map(warning => warning.severity);
+  return [...warningSeverities].reverse().find(severity => severities.includes(severity));
+}
+
+export const formatWarning = (warning: ActionWarning): string =>
+  `[${warning.severity.toUpperCase()}] ${warning.message}`;
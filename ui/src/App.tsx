@@ -1,8 +1,71 @@
-import { useState, useEffect, useRef } from 'react'
-import { decode, decodeTreasury, type Action } from '../../src/index'
-import { Interface, AbiCoder, Contract, JsonRpcProvider, formatEther, formatUnits } from 'ethers'
-import proposalsData from '../../data/proposals.json'
-import treasuryProposalsData from '../../data/treasury-proposals.json'
+import { useState, useEffect, useMemo, useRef } from 'react'
+import {
+  buildDecodedCall,
+  decodeKnownCall,
+  decodedCallToJSON,
+  decodeOperation,
+  decodeSecurityCouncilTransaction,
+  formatTreasuryAmount,
+  getExecutionPathDelay,
+  getHighestSeverity,
+  getTreasuryOutflows,
+  isSafeTransactionPayload,
+  type Action,
+  type DecodedCall,
+  type DecodedParam,
+  type ExecutionHop,
+  type L1TimelockOperation,
+  type WarningSeverity,
+} from '../../src/index'
+import {
+  config,
+  getBackendConfigs,
+  getChainName,
+  getExplorerUrl,
+  getGovernor,
+  getTransactionUrl,
+  registerNetworks,
+  type GovernorConfig,
+  type GovernorId,
+} from '../../src/config'
+import { getExplanation } from '../../src/explain'
+import { generateReport } from '../../src/report'
+import { decodeStoredProposal, type StoredProposal } from '../../src/proposals'
+import { getLastIndexedBlock, updateGovernorIndex, type IndexerState } from '../../src/indexer'
+import {
+  fetchVerifiedSource,
+  projectFiles,
+  verifyActionContract,
+  type ActionContractVerification,
+  type ExpectedCodeHash,
+  type VerifiedSource,
+} from '../../src/verification'
+import { findProxyUpgrades, getUpgradeSummaries, type ProxyUpgrade, type UpgradeSummary } from '../../src/upgrades'
+import {
+  fetchProposalLifecycle,
+  getProposalProgress,
+  L1_TIMELOCK_START_BLOCK,
+  type ChainEvent,
+  type ProposalLifecycle,
+  type ProposalStage,
+} from '../../src/lifecycle'
+import { decodeWithSignatures } from '../../src/signatures'
+import { createLookupCache, lookupKey, type CacheSnapshot } from '../../src/cache'
+import { createIndexedDBStore } from './indexedDBStore'
+import { getChainBackend } from '../../src/backends'
+import { getNetworkProvider } from '../../src/provider'
+import {
+  fetchTransaction,
+  resolveFetchedTransaction,
+  type FetchedTransaction,
+  type ProposalCalls,
+  type ResolvedTransaction,
+  type TransactionKind,
+} from '../../src/transactions'
+import { Interface, ZeroHash, formatEther, formatUnits } from 'ethers'
+import expectedCodeHashes from '../../data/action-contract-hashes.json'
+import proposalLifecycles from '../../data/proposal-lifecycles.json'
+import indexerState from '../../data/indexer-state.json'
 
 interface FourByteResponse {
   count: number;
@@ -15,6 +78,11 @@ interface FourByteResponse {
 
 const ETHERSCAN_API_KEY = import.meta.env.VITE_ETHERSCAN_API_KEY || ''
 
+// Optional JSON array of network overrides, merged into the registry in src/config.ts
+if (import.meta.env.VITE_NETWORKS_JSON) {
+  registerNetworks(JSON.parse(import.meta.env.VITE_NETWORKS_JSON))
+}
+
 // Rate limiter for 4byte API (max 3 calls/sec)
 class RateLimiter {
   private queue: Array<{ fn: () => Promise<any>; resolve: (value: any) => void; reject: (error: any) => void }> = []
@@ -62,51 +130,91 @@ class RateLimiter {
 
 const fourByteRateLimiter = new RateLimiter()
 
-function getExplorerApiUrl(chainID: number): { url: string, params: string } | null {
-  if (chainID === 1 || chainID === 42161) {
-    return { url: 'https://api.etherscan.io/v2/api', params: `chainid=${chainID}&apikey=${ETHERSCAN_API_KEY}` }
-  }
-  if (chainID === 42170) {
-    return { url: 'https://arbitrum-nova.blockscout.com/api', params: '' }
+// One limiter per set of source/ABI backends (explorer, Sourcify), so a chain's explorer calls
+// neither wait on 4byte nor on an unrelated explorer; chains sharing backends share the limiter
+const backendRateLimiters = new Map<string, RateLimiter>()
+
+function getBackendRateLimiter(chainID: number): RateLimiter {
+  const key = getBackendConfigs(chainID)
+    .filter((backend) => backend.type !== 'rpc')
+    .map((backend) => backend.url ?? backend.type)
+    .join(' ') || String(chainID)
+  let limiter = backendRateLimiters.get(key)
+  if (!limiter) {
+    limiter = new RateLimiter()
+    backendRateLimiters.set(key, limiter)
   }
-  return null
+  return limiter
 }
 
-async function fetchContractABI(address: string, chainID: number): Promise<string | null> {
-  const explorer = getExplorerApiUrl(chainID)
-  console.log('[ABI] Attempting to fetch ABI for:', { address, chainID, explorer })
+// ABI, source and signature lookups survive reloads; data/lookup-cache.json (written by the
+// CLI) is merged in on load, so lookups committed alongside data/ never hit the network
+const lookupCache = createLookupCache(createIndexedDBStore())
+const BUNDLED_CACHE = import.meta.glob<CacheSnapshot>('../../data/lookup-cache.json', { eager: true, import: 'default' })
+for (const snapshot of Object.values(BUNDLED_CACHE)) {
+  lookupCache.importSnapshot(snapshot)
+    .then((count) => console.log(`[Cache] Imported ${count} lookups from data/lookup-cache.json`))
+    .catch((error) => console.error('[Cache] Import failed:', error))
+}
 
-  if (!explorer) {
-    console.log('[ABI] No API URL for chain', chainID)
-    return null
-  }
+async function exportLookupCache() {
+  const snapshot = await lookupCache.exportSnapshot()
+  const url = URL.createObjectURL(new Blob([JSON.stringify(snapshot, null, 2)], { type: 'application/json' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = 'lookup-cache.json'
+  link.click()
+  URL.revokeObjectURL(url)
+}
 
+async function importLookupCache(file: File) {
   try {
-    const params = explorer.params ? `${explorer.params}&` : ''
-    const url = `${explorer.url}?${params}module=contract&action=getabi&address=${address}`
-    console.log('[ABI] Fetching from:', url)
-
-    const response = await fetch(url)
-    const data = await response.json()
+    const count = await lookupCache.importSnapshot(JSON.parse(await file.text()))
+    console.log(`[Cache] Imported ${count} lookups from ${file.name}`)
+  } catch (error) {
+    console.error('[Cache] Import failed:', error)
+  }
+}
 
-    console.log('[ABI] Response for chainID', chainID, ':', data)
+// Throws on network and explorer errors (rate limits, bad keys) so only an actual answer is cached
+function fetchContractABIUncached(address: string, chainID: number): Promise<string | null> {
+  console.log('[ABI] Attempting to fetch ABI for:', { address, chainID })
+  return getChainBackend(chainID, { apiKey: ETHERSCAN_API_KEY }).getABI(address)
+}
 
-    if (data.status === '1' && data.result) {
-      console.log('[ABI] Successfully fetched ABI')
-      return data.result
-    } else {
-      console.log('[ABI] Failed to fetch ABI:', data.message || data.result)
-    }
+async function fetchContractABI(address: string, chainID: number): Promise<string | null> {
+  try {
+    return await lookupCache.lookup(lookupKey('abi', address, chainID), 'abi', () =>
+      fetchContractABIUncached(address, chainID)
+    )
   } catch (error) {
     console.error('[ABI] Fetch error:', error)
+    return null
   }
+}
 
-  return null
+// Every signature 4byte has for the selector, or null if it has none
+function fetch4ByteSignatures(selector: string): Promise<string[] | null> {
+  return lookupCache.lookup(lookupKey('signature', selector), 'signature', async () => {
+    // Use rate limiter to avoid hitting 3 calls/sec limit
+    const data: FourByteResponse = await fourByteRateLimiter.execute(async () => {
+      const response = await fetch(
+        `https://www.4byte.directory/api/v1/signatures/?hex_signature=${selector}`
+      )
+      return response.json()
+    })
+    console.log('[4byte] Response:', data)
+    return data.results?.length ? data.results.map((result) => result.text_signature) : null
+  })
 }
 
-async function decodeWithABI(callData: string, address: string, chainID: number): Promise<string> {
+// Nested bytes params are resolved against the offline registry only
+const decodeNestedKnown = (chainID: number) => (nestedCallData: string, nestedAddress?: string) =>
+  decodeKnownCall(nestedCallData, nestedAddress, chainID)
+
+async function decodeWithABI(callData: string, address: string, chainID: number): Promise<DecodedCall | null> {
   const abiJson = await fetchContractABI(address, chainID)
-  if (!abiJson) return ''
+  if (!abiJson) return null
 
   try {
     const abi = JSON.parse(abiJson)
@@ -115,66 +223,34 @@ async function decodeWithABI(callData: string, address: string, chainID: number)
 
     // Find the function in the ABI
     const fragment = iface.getFunction(selector)
-    if (!fragment) return ''
-
-    // Decode the function data
-    const decoded = iface.decodeFunctionData(fragment, callData)
+    if (!fragment) return null
 
-    // Format the output
-    const params = fragment.inputs.map((input, i) => {
-      return `${input.name || `arg${i}`}: ${decoded[i]}`
-    }).join(', ')
-
-    return `${fragment.name}(${params})`
+    return buildDecodedCall(fragment, callData, decodeNestedKnown(chainID))
   } catch (error) {
     console.error('ABI decoding failed:', error)
-    return ''
+    return null
   }
 }
 
-async function decode4Byte(callData: string): Promise<string> {
+async function decode4Byte(callData: string, chainID: number): Promise<DecodedCall | null> {
   if (!callData || callData.length < 10) {
-    return ''
+    return null
   }
 
   const selector = callData.slice(0, 10)
   console.log('[4byte] Attempting to decode selector:', selector)
 
   try {
-    // Use rate limiter to avoid hitting 3 calls/sec limit
-    const data: FourByteResponse = await fourByteRateLimiter.execute(async () => {
-      const response = await fetch(
-        `https://www.4byte.directory/api/v1/signatures/?hex_signature=${selector}`
-      )
-      return response.json()
-    })
-
-    console.log('[4byte] Response:', data)
-
-    if (data.results && data.results.length > 0) {
-      const signature = data.results[0].text_signature
-      console.log('[4byte] Found signature:', signature)
-
-      // Try to decode the parameters
-      try {
-        const iface = new Interface([`function ${signature}`])
-        const decoded = iface.decodeFunctionData(signature.split('(')[0], callData)
-
-        // Format the decoded parameters
-        const params = signature.match(/\(([^)]+)\)/)?.[1].split(',') || []
-        const formattedParams = params.map((param, i) => {
-          const value = decoded[i]
-          return `${param.trim()}: ${value}`
-        }).join(', ')
-
-        const result = `${signature.split('(')[0]}(${formattedParams})`
+    const candidates = await fetch4ByteSignatures(selector)
+    if (candidates) {
+      // Selectors collide, so every candidate is tried and only an unambiguous fit is used
+      console.log('[4byte] Candidate signatures:', candidates)
+      const result = decodeWithSignatures(callData, candidates, decodeNestedKnown(chainID))
+      if (result) {
         console.log('[4byte] Decoded successfully:', result)
         return result
-      } catch (err) {
-        console.log('[4byte] Decoding failed, returning signature only:', err)
-        // If decoding fails, just return the signature
-        return signature
       }
+      console.log('[4byte] No single candidate fits the calldata')
     } else {
       console.log('[4byte] No results found')
     }
@@ -182,72 +258,58 @@ async function decode4Byte(callData: string): Promise<string> {
     console.error('[4byte] Lookup failed:', error)
   }
 
-  return ''
+  return null
 }
 
-const sourceCache = new Map<string, Promise<{ name: string, source: string } | null>>()
-
-function fetchContractSource(address: string, chainID: number): Promise<{ name: string, source: string } | null> {
-  const key = `${chainID}:${address}`
-  const cached = sourceCache.get(key)
-  if (cached) return cached
-
-  const promise = fetchContractSourceUncached(address, chainID)
-  sourceCache.set(key, promise)
-  return promise
+// Shared by the source viewer and action contract verification, so each contract is fetched once
+function fetchVerifiedSourceCached(address: string, chainID: number): Promise<VerifiedSource | null> {
+  return lookupCache.lookup(lookupKey('source', address, chainID), 'source', () =>
+    getBackendRateLimiter(chainID).execute(() => fetchVerifiedSource(address, chainID, ETHERSCAN_API_KEY))
+  )
 }
 
-async function fetchContractSourceUncached(address: string, chainID: number): Promise<{ name: string, source: string } | null> {
-  const explorer = getExplorerApiUrl(chainID)
-  if (!explorer) return null
-
+async function fetchContractSource(address: string, chainID: number): Promise<{ name: string, source: string } | null> {
   try {
-    const data = await fourByteRateLimiter.execute(async () => {
-      const params = explorer.params ? `${explorer.params}&` : ''
-      const url = `${explorer.url}?${params}module=contract&action=getsourcecode&address=${address}`
-      const response = await fetch(url)
-      return response.json()
-    })
-
-    if (data.status === '1' && data.result?.[0]?.SourceCode) {
-      let rawSource: string = data.result[0].SourceCode
-
-      // Etherscan wraps multi-file Solidity sources in {{...}} JSON
-      if (rawSource.startsWith('{{')) {
-        try {
-          // Strip outer braces to get valid JSON
-          const parsed = JSON.parse(rawSource.slice(1, -1))
-          const sources: Record<string, { content: string }> = parsed.sources || parsed
-
-          // Only keep non-dependency source files
-          const projectSources = Object.entries(sources)
-            .filter(([path]) => !path.startsWith('node_modules/') && !path.startsWith('@'))
-            .map(([path, { content }]) => `// --- ${path} ---\n${content}`)
-
-          rawSource = projectSources.length > 0
-            ? projectSources.join('\n\n')
-            : Object.values(sources)[0]?.content || rawSource
-        } catch {
-          // If parsing fails, use raw source as-is
-        }
-      }
-
-      return {
-        name: data.result[0].ContractName,
-        source: rawSource,
-      }
-    }
+    const verified = await fetchVerifiedSourceCached(address, chainID)
+    if (!verified) return null
+
+    // Only show non-dependency source files
+    const files = Object.entries(projectFiles(verified.files))
+    const source = files.length > 0
+      ? files.map(([path, content]) => `// --- ${path} ---\n${content}`).join('\n\n')
+      : Object.values(verified.files)[0] ?? ''
+    return { name: verified.name, source }
   } catch (error) {
     console.error('[Source] Fetch error:', error)
+    return null
   }
+}
 
-  return null
+// Txs looked up by hash for the session. Only their cross-check depends on the known proposals,
+// so proposals arriving later re-resolve a tx without looking it up (or showing Fetching...) again
+const fetchedTransactions = new Map<string, FetchedTransaction>()
+const pendingTransactions = new Map<string, Promise<FetchedTransaction>>()
+
+function fetchTransactionCached(txHash: string): Promise<FetchedTransaction> {
+  let pending = pendingTransactions.get(txHash)
+  if (!pending) {
+    pending = fetchTransaction(txHash).then((fetched) => {
+      fetchedTransactions.set(txHash, fetched)
+      return fetched
+    })
+    // Failed lookups (RPC down, tx not mined yet) are tried again next time
+    pending.catch(() => pendingTransactions.delete(txHash))
+    pendingTransactions.set(txHash, pending)
+  }
+  return pending
 }
 
-const decodeCache = new Map<string, Promise<string>>()
+// Decoding is cheap once the lookups behind it are cached, so results only live for the session
+const decodeCache = new Map<string, Promise<DecodedCall | null>>()
 
-function decodeCallData(callData: string, address: string, chainID: number): Promise<string> {
-  const key = `${address}:${callData}`
+function decodeCallData(callData: string, address: string, chainID: number): Promise<DecodedCall | null> {
+  // The same address can hold a different contract on another chain
+  const key = `${chainID}:${address}:${callData}`
   const cached = decodeCache.get(key)
   if (cached) return cached
 
@@ -256,20 +318,25 @@ function decodeCallData(callData: string, address: string, chainID: number): Pro
   return promise
 }
 
-async function decodeCallDataUncached(callData: string, address: string, chainID: number): Promise<string> {
+async function decodeCallDataUncached(callData: string, address: string, chainID: number): Promise<DecodedCall | null> {
   console.log('[Decode] Starting decode for:', { callData: callData.slice(0, 20) + '...', address, chainID })
 
-  // First try 4byte (works for all chains)
+  // The bundled ABIs and signature database need no network
+  const offlineResult = decodeKnownCall(callData, address, chainID)
+  if (offlineResult) {
+    console.log('[Decode] Decoded offline')
+    return offlineResult
+  }
+
+  // Then 4byte (works for all chains)
   console.log('[Decode] Trying 4byte...')
-  const fourByteResult = await decode4Byte(callData)
+  const fourByteResult = await decode4Byte(callData, chainID)
   if (fourByteResult) {
     console.log('[Decode] 4byte succeeded, using result')
     return fourByteResult
   }
 
-
-
-  // Fallback to ABI lookup (V2 API) for L1 and Arb One only
+  // Fallback to the ABI backends configured for the chain (explorer, Sourcify)
   console.log('[Decode] 4byte failed, trying ABI lookup...')
   const abiResult = await decodeWithABI(callData, address, chainID)
   if (abiResult) {
@@ -280,108 +347,564 @@ async function decodeCallDataUncached(callData: string, address: string, chainID
   return abiResult
 }
 
-const getExplorerUrl = (chainID: number, address: string): string => {
-  const explorerConfigs: Record<number, { base: string; suffix: string }> = {
-    1: { base: 'https://etherscan.io/address/', suffix: '#code' },
-    42161: { base: 'https://arbiscan.io/address/', suffix: '#code' },
-    42170: { base: 'https://arbitrum-nova.blockscout.com/address/', suffix: '?tab=contract' },
-  }
-
-  const config = explorerConfigs[chainID] || { base: 'https://etherscan.io/address/', suffix: '#code' }
-  return `${config.base}${address}${config.suffix}`
-}
-
-const getChainName = (chainID: number): string => {
-  const chains: Record<number, string> = {
-    1: 'Ethereum',
-    42161: 'Arbitrum One',
-    42170: 'Arbitrum Nova',
-  }
-
-  return chains[chainID] || `Chain ${chainID}`
-}
-
-const CORE_GOVERNOR_ADDRESS = '0xf07DeD9dC292157749B6Fd268E37DF6EA38395B9'
-const TREASURY_GOVERNOR_ADDRESS = '0x789fC99093B09aD01C34DC7251D0C89ce743e5a4'
-const GOVERNOR_ABI = [
-  'event ProposalCreated(uint256 proposalId, address proposer, address[] targets, uint256[] values, string[] signatures, bytes[] calldatas, uint256 startBlock, uint256 endBlock, string description)',
-]
-const ARB_RPC = 'https://arb1.arbitrum.io/rpc'
-
 interface ProposalOption {
   id: string
   label: string
-  calldata: string
-}
-
-interface TreasuryProposalOption {
-  id: string
-  label: string
+  description: string
   targets: string[]
   values: string[]
   calldatas: string[]
+  blockNumber: number
+  transactionHash: string
 }
 
-const STATIC_PROPOSALS: ProposalOption[] = proposalsData.map((p) => ({
-  id: p.proposalId,
-  label: p.description.slice(0, 50).replace(/\n/g, ' '),
-  calldata: p.calldatas[0],
-})).reverse()
-
-const STATIC_TREASURY_PROPOSALS: TreasuryProposalOption[] = treasuryProposalsData.map((p) => ({
+const toProposalOption = (p: StoredProposal): ProposalOption => ({
   id: p.proposalId,
   label: p.description.slice(0, 50).replace(/\n/g, ' '),
+  description: p.description,
   targets: p.targets,
   values: p.values,
   calldatas: p.calldatas,
-})).reverse()
+  blockNumber: p.blockNumber,
+  transactionHash: p.transactionHash,
+})
+
+// Every governor data file in data/, keyed by path; governors not fetched yet have none
+const DATA_FILES = import.meta.glob<StoredProposal[]>('../../data/*proposals.json', { eager: true, import: 'default' })
+
+const staticProposals = (governor: GovernorConfig): ProposalOption[] =>
+  (DATA_FILES[`../../data/${governor.dataFile}`] ?? []).map(toProposalOption).reverse()
 
-const LATEST_SAVED_BLOCK = Math.max(
-  ...proposalsData.map((p) => p.blockNumber),
-  ...treasuryProposalsData.map((p) => p.blockNumber),
+// The live check picks up after the saved index (or VITE_LATEST_BLOCK_CHECK, if later)
+const lastSavedBlock = (governor: GovernorConfig) => Math.max(
+  getLastIndexedBlock(indexerState as IndexerState, governor),
   Number(import.meta.env.VITE_LATEST_BLOCK_CHECK || 0),
 )
 
+// Spelled out for Tailwind; governors past the last style reuse them in turn
+const governorDropdownStyles = [
+  {
+    button: 'bg-fuchsia-950 border-fuchsia-500 text-fuchsia-400 hover:bg-fuchsia-900 hover:shadow-[0_0_10px_rgba(217,70,239,0.3)]',
+    menu: 'border-fuchsia-500 shadow-[0_0_15px_rgba(217,70,239,0.3)]',
+    item: 'text-fuchsia-300 hover:bg-fuchsia-950 hover:text-fuchsia-200 border-fuchsia-900',
+    id: 'text-fuchsia-600',
+  },
+  {
+    button: 'bg-amber-950 border-amber-500 text-amber-400 hover:bg-amber-900 hover:shadow-[0_0_10px_rgba(245,158,11,0.3)]',
+    menu: 'border-amber-500 shadow-[0_0_15px_rgba(245,158,11,0.3)]',
+    item: 'text-amber-300 hover:bg-amber-950 hover:text-amber-200 border-amber-900',
+    id: 'text-amber-600',
+  },
+  {
+    button: 'bg-emerald-950 border-emerald-500 text-emerald-400 hover:bg-emerald-900 hover:shadow-[0_0_10px_rgba(16,185,129,0.3)]',
+    menu: 'border-emerald-500 shadow-[0_0_15px_rgba(16,185,129,0.3)]',
+    item: 'text-emerald-300 hover:bg-emerald-950 hover:text-emerald-200 border-emerald-900',
+    id: 'text-emerald-600',
+  },
+  {
+    button: 'bg-sky-950 border-sky-500 text-sky-400 hover:bg-sky-900 hover:shadow-[0_0_10px_rgba(14,165,233,0.3)]',
+    menu: 'border-sky-500 shadow-[0_0_15px_rgba(14,165,233,0.3)]',
+    item: 'text-sky-300 hover:bg-sky-950 hover:text-sky-200 border-sky-900',
+    id: 'text-sky-600',
+  },
+]
 
-const TREASURY_CONTRACT = '0xF3FC178157fb3c87548bAA86F9d24BA38E649B58'.toLowerCase()
-const ARB_TOKEN = '0x912CE59144191C1204E64559FE8253a0e49E6548'.toLowerCase()
-const TRANSFER_SELECTOR = '0xbeabacc8' // transfer(address,address,uint256)
 
-function getExplanation(action: Action): string | null {
-  // Simple ETH transfer: non-zero value and empty calldata
-  if (action.value && (!action.callData || action.callData === '0x')) {
-    return `Transfer ${formatEther(action.value)} ETH to ${action.address}`
-  }
+function getOperations(targets: string[], calldatas: string[]): L1TimelockOperation[] {
+  return targets
+    .map((target, i) => ({ target, calldata: calldatas[i] }))
+    .filter(({ target }) => target.toLowerCase() === config.arbSys.toLowerCase())
+    .map(({ calldata }) => decodeOperation(calldata))
+}
+
+const formatDelay = (seconds: number): string =>
+  seconds === 0 ? 'immediate' : `${(seconds / 86400).toFixed(1)} days`
+
+function ExecutionTimeline({ hops }: { hops: ExecutionHop[] }) {
+  const totalDelay = getExecutionPathDelay(hops)
+
+  return (
+    <div className="border-2 border-cyan-500 bg-gray-950 rounded-lg p-4 text-sm">
+      <h3 className="text-lg font-bold text-cyan-400 mb-3">
+        EXECUTION PATH <span className="text-xs text-green-500">(~{formatDelay(totalDelay)} total)</span>
+      </h3>
+      <ol className="border-l-2 border-cyan-700 ml-2 space-y-2">
+        {hops.map((hop, i) => (
+          <li key={i} className="ml-4 relative">
+            <span className="absolute -left-[1.4rem] top-1 w-2.5 h-2.5 rounded-full bg-cyan-400" />
+            <span className="font-bold text-green-400">{hop.name}</span>
+            <span className="ml-2 text-xs text-green-600">{getChainName(hop.chainID)}</span>
+            <a
+              href={getExplorerUrl(hop.chainID, hop.address)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="ml-2 text-xs text-yellow-400 hover:text-yellow-300 break-all"
+            >
+              {hop.address} ↗
+            </a>
+            {hop.delay > 0 && (
+              <div className="text-xs text-amber-300">⏱ {formatDelay(hop.delay)}</div>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
+
+function TimelockOperationCard({ operation }: { operation: L1TimelockOperation }) {
+  const hasPredecessor = operation.predecessor !== ZeroHash
+  const isNonDefaultDelay = Number(operation.delay) !== config.l1TimelockDelay
 
-  // ARB transfer via treasury contract
-  if (
-    action.address.toLowerCase() === TREASURY_CONTRACT &&
-    action.callData?.slice(0, 10) === TRANSFER_SELECTOR
-  ) {
+  return (
+    <div className="border-2 border-fuchsia-500 bg-gray-950 rounded-lg p-4 space-y-2 text-sm">
+      <h3 className="text-lg font-bold text-fuchsia-400">L1 TIMELOCK OPERATION</h3>
+      <div>
+        <span className="font-bold text-cyan-400 uppercase">Operation ID:</span>
+        <code className="ml-2 text-cyan-300 text-xs break-all">{operation.id}</code>
+      </div>
+      <div>
+        <span className="font-bold text-cyan-400 uppercase">Predecessor:</span>
+        <code className={`ml-2 text-xs break-all ${hasPredecessor ? 'text-red-400' : 'text-green-300'}`}>
+          {hasPredecessor ? operation.predecessor : 'none'}
+        </code>
+      </div>
+      <div>
+        <span className="font-bold text-cyan-400 uppercase">Salt:</span>
+        <code className="ml-2 text-green-300 text-xs break-all">{operation.salt}</code>
+      </div>
+      <div>
+        <span className="font-bold text-cyan-400 uppercase">Delay:</span>
+        <span className={`ml-2 ${isNonDefaultDelay ? 'text-red-400' : 'text-green-400'}`}>
+          {operation.delay}s ({(Number(operation.delay) / 86400).toFixed(2)} days)
+          {isNonDefaultDelay && ' — non-default delay'}
+        </span>
+      </div>
+      <div>
+        <span className="font-bold text-cyan-400 uppercase">Calls:</span>
+        {operation.calls.map((call, i) => (
+          <div key={i} className="ml-2 text-xs text-green-300 break-all">
+            #{i + 1} {call.target}
+            {call.value !== '0' && <span className="text-yellow-400"> ({formatEther(call.value)} ETH)</span>}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+const transactionKindLabels: Record<TransactionKind, string> = {
+  'proposal-created': 'Proposal creation',
+  'proposal-queued': 'Proposal queue',
+  'proposal-executed': 'Proposal execution',
+  'l1-timelock-scheduled': 'L1 Timelock schedule (Outbox execution)',
+  'l1-timelock-executed': 'L1 Timelock execution',
+  'retryable-redeem': 'Retryable redeem',
+  'security-council': 'Security Council transaction',
+}
+
+const crossCheckStyles: Record<NonNullable<ResolvedTransaction['crossCheck']>['status'], string> = {
+  match: 'text-green-400',
+  mismatch: 'text-red-400 font-bold',
+  'not-found': 'text-amber-400',
+}
+
+function ResolvedTransactionCard({ resolved }: { resolved: ResolvedTransaction }) {
+  const mismatch = resolved.crossCheck?.status === 'mismatch'
+
+  return (
+    <div className={`border-2 ${mismatch ? 'border-red-500' : 'border-amber-500'} bg-gray-950 rounded-lg p-4 space-y-2 text-sm`}>
+      <h3 className="text-lg font-bold text-amber-400">RESOLVED TRANSACTION</h3>
+      <div>
+        <span className="font-bold text-cyan-400 uppercase">Kind:</span>
+        <span className="ml-2 text-green-300">{transactionKindLabels[resolved.kind]} on {getChainName(resolved.chainID)}</span>
+      </div>
+      <div>
+        <span className="font-bold text-cyan-400 uppercase">Tx:</span>
+        <code className="ml-2 text-green-300 text-xs break-all">{resolved.txHash}</code>
+      </div>
+      {resolved.proposalId && (
+        <div>
+          <span className="font-bold text-cyan-400 uppercase">Proposal ID:</span>
+          <code className="ml-2 text-cyan-300 text-xs break-all">{resolved.proposalId}</code>
+        </div>
+      )}
+      {resolved.crossCheck && (
+        <div>
+          <span className="font-bold text-cyan-400 uppercase">Cross-check:</span>
+          <span className={`ml-2 ${crossCheckStyles[resolved.crossCheck.status]}`}>
+            {mismatch && '⚠ '}{resolved.crossCheck.message}
+          </span>
+        </div>
+      )}
+    </div>
+  )
+}
+
+const LIFECYCLES = proposalLifecycles as ProposalLifecycle[]
+
+const liveLifecycles = new Map<string, Promise<ProposalLifecycle>>()
+
+// Proposals data/proposal-lifecycles.json doesn't cover are read from the chains, once per session
+const fetchLiveLifecycle = (proposal: ProposalOption, governorId: GovernorId): Promise<ProposalLifecycle> => {
+  const cached = liveLifecycles.get(proposal.id)
+  if (cached) return cached
+
+  const governor = getGovernor(governorId)
+  const lookup = (async () => {
+    const chainIDs = [...new Set([governor.chainID, 1, ...config.chains.map((chain) => chain.chainID)])]
+    const ranges = Object.fromEntries(await Promise.all(chainIDs.map(async (chainID) => {
+      const provider = getNetworkProvider(chainID)
+      if (!provider) throw new Error(`No RPC for chain ${chainID}`)
+      // Nothing about the proposal happens on its own chain before it was created
+      const fromBlock = chainID === governor.chainID ? proposal.blockNumber : chainID === 1 ? L1_TIMELOCK_START_BLOCK : 0
+      return [chainID, { fromBlock, toBlock: await provider.getBlockNumber() }] as const
+    })))
+    return fetchProposalLifecycle(
+      { proposalId: proposal.id, targets: proposal.targets, calldatas: proposal.calldatas, blockNumber: proposal.blockNumber, transactionHash: proposal.transactionHash },
+      governorId,
+      {
+        getProvider: getNetworkProvider,
+        getLogSource: (chainID) => getChainBackend(chainID, { apiKey: ETHERSCAN_API_KEY }),
+        ranges,
+      },
+    )
+  })()
+  // Failures aren't kept, so selecting the proposal again retries
+  lookup.catch(() => liveLifecycles.delete(proposal.id))
+  liveLifecycles.set(proposal.id, lookup)
+  return lookup
+}
+
+const stageLabels: Record<ProposalStage, string> = {
+  voting: 'Voting',
+  succeeded: 'Passed, waiting to be queued',
+  queued: 'Queued in the L2 timelock',
+  'l2-to-l1': 'Waiting for the challenge period / Outbox',
+  'l1-timelock': 'In the L1 Timelock',
+  retryables: 'Waiting for L2 retryable redemption',
+  executed: 'Executed',
+  canceled: 'Canceled',
+  defeated: 'Defeated',
+  expired: 'Expired',
+}
+
+const stageStyles: Record<ProposalStage, string> = {
+  voting: 'bg-cyan-950 border-cyan-500 text-cyan-300',
+  succeeded: 'bg-amber-950 border-amber-500 text-amber-300',
+  queued: 'bg-amber-950 border-amber-500 text-amber-300',
+  'l2-to-l1': 'bg-amber-950 border-amber-500 text-amber-300',
+  'l1-timelock': 'bg-amber-950 border-amber-500 text-amber-300',
+  retryables: 'bg-amber-950 border-amber-500 text-amber-300',
+  executed: 'bg-green-950 border-green-500 text-green-300',
+  canceled: 'bg-gray-900 border-gray-500 text-gray-400',
+  defeated: 'bg-red-950 border-red-500 text-red-300',
+  expired: 'bg-gray-900 border-gray-500 text-gray-400',
+}
+
+function LifecycleEventLink({ label, event }: { label: string; event?: ChainEvent }) {
+  if (!event) return null
+  return (
+    <div className="flex items-baseline">
+      <span className="font-bold text-cyan-400 uppercase">{label}:</span>
+      <a
+        href={getTransactionUrl(event.chainID, event.transactionHash)}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="ml-2 text-yellow-400 hover:text-yellow-300 text-xs break-all"
+      >
+        {getChainName(event.chainID)} block {event.blockNumber} ↗
+      </a>
+    </div>
+  )
+}
+
+function ProposalLifecyclePanel({ lifecycle }: { lifecycle: ProposalLifecycle }) {
+  const { stage, remaining } = getProposalProgress(lifecycle)
+
+  return (
+    <div className="border-2 border-cyan-500 bg-gray-950 rounded-lg p-4 space-y-2 text-sm">
+      <div className="flex items-center gap-3">
+        <h3 className="text-lg font-bold text-cyan-400">PROPOSAL STAGE</h3>
+        <span className={`px-2 py-0.5 text-xs border rounded uppercase tracking-wide font-bold ${stageStyles[stage]}`}>
+          {stageLabels[stage]}
+        </span>
+      </div>
+      {lifecycle.votes && (
+        <div>
+          <span className="font-bold text-cyan-400 uppercase">Votes:</span>
+          <span className="ml-2 text-green-400">for {Number(formatEther(lifecycle.votes.for)).toLocaleString()}</span>
+          <span className="ml-2 text-red-400">against {Number(formatEther(lifecycle.votes.against)).toLocaleString()}</span>
+          <span className="ml-2 text-gray-400">abstain {Number(formatEther(lifecycle.votes.abstain)).toLocaleString()}</span>
+        </div>
+      )}
+      <LifecycleEventLink label="Created" event={lifecycle.created} />
+      <LifecycleEventLink label="Queued" event={lifecycle.queued} />
+      {lifecycle.queued && !lifecycle.executed && (
+        <div className="text-xs text-amber-300">Executable after {new Date(lifecycle.queued.eta * 1000).toISOString()}</div>
+      )}
+      <LifecycleEventLink label="Executed" event={lifecycle.executed} />
+      <LifecycleEventLink label="Canceled" event={lifecycle.canceled} />
+      {lifecycle.l1Operations.map((operation) => (
+        <div key={operation.id} className="space-y-1">
+          <LifecycleEventLink label="L1 Scheduled" event={operation.scheduled} />
+          <LifecycleEventLink label="L1 Executed" event={operation.executed} />
+        </div>
+      ))}
+      {lifecycle.retryables.map((retryable, i) => (
+        <div key={i} className="text-xs">
+          <span className="font-bold text-cyan-400 uppercase">Retryable #{i + 1}</span>
+          <span className="ml-2 text-green-300">{getChainName(retryable.chainID)} {retryable.address}:</span>
+          <span className={`ml-2 ${retryable.redeemed ? 'text-green-400' : 'text-amber-400'}`}>
+            {retryable.redeemed ? 'redeemed' : retryable.created ? `created (message ${retryable.created.messageNum})` : 'not created yet'}
+          </span>
+        </div>
+      ))}
+      {remaining.length > 0 && (
+        <div>
+          <span className="font-bold text-cyan-400 uppercase">Left before execution:</span>
+          <ol className="ml-6 mt-1 list-decimal text-xs text-amber-300 space-y-0.5">
+            {remaining.map((step) => <li key={step}>{step}</li>)}
+          </ol>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function DecodedParamNode({ param }: { param: DecodedParam }) {
+  const children = param.components ?? []
+  const hasChildren = children.length > 0 || !!param.call
+  const [expanded, setExpanded] = useState(true)
+
+  return (
+    <li>
+      <div className="break-all">
+        {hasChildren && (
+          <button onClick={() => setExpanded(!expanded)} className="mr-1 text-cyan-500 hover:text-cyan-300">
+            {expanded ? '▼' : '▶'}
+          </button>
+        )}
+        <span className="text-green-400">{param.name}</span>
+        <span className="ml-1 text-fuchsia-400">({param.type})</span>
+        {!param.call && children.length === 0 && <span className="ml-2 text-cyan-200">{param.value}</span>}
+      </div>
+      {expanded && param.call && <DecodedCallNode call={param.call} />}
+      {expanded && children.length > 0 && (
+        <ul className="ml-4 border-l border-cyan-800 pl-2">
+          {children.map((child, i) => <DecodedParamNode key={i} param={child} />)}
+        </ul>
+      )}
+    </li>
+  )
+}
+
+function DecodedCallNode({ call }: { call: DecodedCall }) {
+  return (
+    <div className="ml-4 border-l border-cyan-800 pl-2">
+      <div>
+        <span className="text-cyan-300 font-bold">{call.signature}</span>
+        <span className="ml-2 text-cyan-700">{call.selector}</span>
+      </div>
+      <ul className="ml-2">
+        {call.params.map((param, i) => <DecodedParamNode key={i} param={param} />)}
+      </ul>
+    </div>
+  )
+}
+
+function DecodedCallTree({ call }: { call: DecodedCall }) {
+  const [copied, setCopied] = useState(false)
+
+  const copyJSON = async () => {
     try {
-      const abiCoder = new AbiCoder()
-      const decoded = abiCoder.decode(
-        ['address', 'address', 'uint256'],
-        '0x' + action.callData.slice(10)
-      )
-      const [token, recipient, amount] = decoded
-      if (token.toLowerCase() === ARB_TOKEN) {
-        return `Transfer ${formatUnits(amount, 18)} ARB to ${recipient}`
-      }
-    } catch {}
+      await navigator.clipboard.writeText(decodedCallToJSON(call))
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (err) {
+      console.error('Failed to copy:', err)
+    }
   }
 
-  return null
+  return (
+    <div className="mt-1 text-xs bg-cyan-950 border border-cyan-600 rounded p-2 relative">
+      <button
+        onClick={copyJSON}
+        className="absolute top-1 right-1 px-2 py-0.5 border border-cyan-600 rounded text-cyan-400 hover:border-cyan-400 uppercase font-bold"
+      >
+        {copied ? '✓ Copied' : 'Copy JSON'}
+      </button>
+      <DecodedCallNode call={call} />
+    </div>
+  )
+}
+
+const upgradeKindLabels: Record<ProxyUpgrade['kind'], string> = {
+  proxyAdmin: 'ProxyAdmin Upgrade',
+  upgradeTo: 'upgradeTo',
+  uups: 'UUPS Upgrade',
+  beacon: 'Beacon Upgrade',
+}
+
+function AddressLink({ chainID, address }: { chainID: number; address: string }) {
+  return (
+    <a
+      href={getExplorerUrl(chainID, address)}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="ml-2 text-yellow-400 hover:text-yellow-300 text-xs break-all"
+    >
+      {address} ↗
+    </a>
+  )
+}
+
+function UpgradePanel({ upgrade }: { upgrade: ProxyUpgrade | UpgradeSummary }) {
+  const summary = 'alreadyApplied' in upgrade ? upgrade : null
+
+  return (
+    <div className="bg-gray-900 border border-fuchsia-500 rounded p-2 space-y-1 shadow-[0_0_10px_rgba(217,70,239,0.2)]">
+      <span className="font-bold text-fuchsia-400 uppercase text-xs">{upgradeKindLabels[upgrade.kind]}:</span>
+      <div className="flex items-baseline">
+        <span className="font-bold text-cyan-400 uppercase">{upgrade.kind === 'beacon' ? 'Beacon:' : 'Proxy:'}</span>
+        <AddressLink chainID={upgrade.chainID} address={upgrade.proxy} />
+      </div>
+      {upgrade.admin && (
+        <div className="flex items-baseline">
+          <span className="font-bold text-cyan-400 uppercase">Proxy Admin:</span>
+          <AddressLink chainID={upgrade.chainID} address={upgrade.admin} />
+        </div>
+      )}
+      <div className="flex items-baseline">
+        <span className="font-bold text-cyan-400 uppercase">Old Implementation:</span>
+        {summary?.oldImplementation ? (
+          <AddressLink chainID={upgrade.chainID} address={summary.oldImplementation} />
+        ) : (
+          <span className={`ml-2 text-xs ${summary ? 'text-gray-500' : 'text-cyan-400 animate-pulse'}`}>
+            {summary ? 'Could not read implementation slot' : 'Reading...'}
+          </span>
+        )}
+      </div>
+      <div className="flex items-baseline">
+        <span className="font-bold text-cyan-400 uppercase">New Implementation:</span>
+        <AddressLink chainID={upgrade.chainID} address={upgrade.newImplementation} />
+      </div>
+      {summary?.alreadyApplied && (
+        <p className="text-xs text-amber-300">Proxy already points at the new implementation (executed?)</p>
+      )}
+      {upgrade.initializer && (
+        <div>
+          <span className="font-bold text-cyan-400 uppercase">Initializer:</span>
+          {upgrade.initializer.decodedCall ? (
+            <DecodedCallTree call={upgrade.initializer.decodedCall} />
+          ) : (
+            <code className="ml-2 block mt-1 text-green-300 bg-gray-950 px-2 py-1 rounded border border-green-600 text-xs break-all">
+              {upgrade.initializer.callData}
+            </code>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Per-proposal totals of what leaves the treasury; approvals and moves between the DAO's own
+// accounts aren't counted
+function TreasuryOutflowsPanel({ actions }: { actions: Action[] }) {
+  const outflows = useMemo(() => getTreasuryOutflows(actions), [actions])
+  if (outflows.length === 0) return null
+
+  return (
+    <div className="bg-gray-900 border border-yellow-500 rounded p-3 space-y-1 shadow-[0_0_10px_rgba(234,179,8,0.2)]">
+      <span className="font-bold text-yellow-400 uppercase text-sm">Treasury Outflows:</span>
+      {outflows.map((outflow) => (
+        <div key={`${outflow.chainID}:${outflow.token ?? 'ETH'}`} className="flex items-baseline text-sm">
+          <span className="font-bold text-cyan-400 uppercase">{getChainName(outflow.chainID)}:</span>
+          <span className="ml-2 text-yellow-300">{formatTreasuryAmount(outflow)}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+const codeHashLabels: Record<ActionContractVerification['codeHashStatus'], string> = {
+  match: 'matches expected',
+  mismatch: 'DOES NOT MATCH expected',
+  unlisted: 'not in expected list',
+  unavailable: 'unavailable',
+}
+
+function VerificationPanel({ verification }: { verification: ActionContractVerification }) {
+  const [showPerform, setShowPerform] = useState(false)
+  const flagged = verification.issues.length > 0
+
+  return (
+    <div className={`bg-gray-900 border rounded p-2 space-y-1 ${flagged ? 'border-red-500 shadow-[0_0_10px_rgba(239,68,68,0.2)]' : 'border-green-600'}`}>
+      <span className={`font-bold uppercase text-xs ${flagged ? 'text-red-400' : 'text-green-400'}`}>Action Contract Verification:</span>
+      <div className="flex flex-wrap gap-2 text-xs">
+        <span className={`px-2 py-0.5 border rounded font-bold uppercase ${verification.verified ? 'border-green-500 text-green-400' : 'border-red-500 text-red-400'}`}>
+          {verification.verified ? '✓ Verified' : '✗ Unverified'}
+        </span>
+        {verification.selfdestruct && (
+          <span className="px-2 py-0.5 border border-red-500 text-red-400 rounded font-bold uppercase">Selfdestruct</span>
+        )}
+      </div>
+      <div className="flex items-baseline">
+        <span className="font-bold text-cyan-400 uppercase">Code Hash:</span>
+        <code className="ml-2 text-green-300 text-xs break-all">
+          {verification.codeHash ?? 'unavailable'} ({codeHashLabels[verification.codeHashStatus]})
+        </code>
+      </div>
+      {verification.immutables.map((immutable) => (
+        <div key={immutable.name} className="flex items-baseline">
+          <span className="font-bold text-cyan-400">{immutable.name}:</span>
+          <AddressLink chainID={verification.chainID} address={immutable.value} />
+        </div>
+      ))}
+      {verification.performBody && (
+        <div>
+          <button
+            onClick={() => setShowPerform(!showPerform)}
+            className="text-xs text-cyan-400 hover:text-cyan-300 border border-cyan-600 bg-cyan-950 px-2 py-1 rounded hover:border-cyan-400 transition-all uppercase tracking-wide font-bold"
+          >
+            {showPerform ? '▼ Hide perform()' : '▶ View perform()'}
+          </button>
+          {showPerform && (
+            <pre className="mt-2 text-xs text-green-300 bg-gray-950 border border-green-600 rounded p-3 overflow-auto max-h-96">
+              {verification.performBody}
+            </pre>
+          )}
+        </div>
+      )}
+      {verification.issues.map((issue, i) => (
+        <p key={i} className="text-red-300 text-xs">⚠ {issue}</p>
+      ))}
+    </div>
+  )
+}
+
+const severityBadgeStyles: Record<WarningSeverity, string> = {
+  info: 'border-cyan-500 text-cyan-400 bg-cyan-950',
+  warning: 'border-amber-500 text-amber-400 bg-amber-950',
+  critical: 'border-red-500 text-red-400 bg-red-950 shadow-[0_0_10px_rgba(239,68,68,0.4)]',
+}
+
+function SeverityBadge({ severity }: { severity: WarningSeverity }) {
+  return (
+    <span className={`px-2 py-0.5 border rounded text-xs font-bold uppercase tracking-wider ${severityBadgeStyles[severity]}`}>
+      {severity}
+    </span>
+  )
 }
 
 function ActionCard({ action, index }: { action: Action; index: number }) {
-  const [autoDecoded, setAutoDecoded] = useState<string>('')
+  const [autoDecoded, setAutoDecoded] = useState<DecodedCall | null>(null)
   const [isDecoding, setIsDecoding] = useState(false)
   const [contractSource, setContractSource] = useState<{ name: string, source: string } | null>(null)
   const [showSource, setShowSource] = useState(false)
 
   useEffect(() => {
-    if (!action.decodedCallData && action.callData) {
+    if (!action.decodedCall && action.callData) {
       setIsDecoding(true)
       decodeCallData(action.callData, action.address, action.chainID).then((result) => {
         setAutoDecoded(result)
@@ -391,10 +914,37 @@ function ActionCard({ action, index }: { action: Action; index: number }) {
     fetchContractSource(action.address, action.chainID).then((result) => {
       setContractSource(result)
     })
-  }, [action.callData, action.decodedCallData, action.address, action.chainID])
+  }, [action.callData, action.decodedCall, action.address, action.chainID])
+
+  const displayDecoded = action.decodedCall ?? autoDecoded
+  const upgrades = useMemo(() => findProxyUpgrades(action, displayDecoded ?? undefined), [action, displayDecoded])
+  const [upgradeSummaries, setUpgradeSummaries] = useState<UpgradeSummary[] | null>(null)
+  const [verification, setVerification] = useState<ActionContractVerification | null>(null)
+
+  useEffect(() => {
+    if (action.type !== 'DELEGATECALL') return
+    let cancelled = false
+    verifyActionContract(action, {
+      expected: expectedCodeHashes as ExpectedCodeHash[],
+      fetchSource: fetchVerifiedSourceCached,
+    }).then((result) => {
+      if (!cancelled) setVerification(result)
+    })
+    return () => { cancelled = true }
+  }, [action])
+
+  // Old implementations come from the EIP-1967 slots, so this needs an RPC
+  useEffect(() => {
+    if (upgrades.length === 0) return
+    let cancelled = false
+    getUpgradeSummaries(upgrades).then((summaries) => {
+      if (!cancelled) setUpgradeSummaries(summaries)
+    })
+    return () => { cancelled = true }
+  }, [upgrades])
 
-  const displayDecoded = action.decodedCallData || autoDecoded
-  const explanation = getExplanation(action)
+  const explanation = getExplanation(action, displayDecoded ?? undefined)
+  const highestSeverity = getHighestSeverity([action])
   const isNoop = !action.address && !action.callData
 
   if (isNoop) {
@@ -406,7 +956,7 @@ function ActionCard({ action, index }: { action: Action; index: number }) {
         <div className="text-sm">
           <span className="font-bold text-cyan-400 uppercase">Decoded Call Data:</span>
           <code className="ml-2 text-cyan-300 bg-cyan-950 px-2 py-1 rounded border border-cyan-600 text-xs break-all block mt-1">
-            {displayDecoded}
+            No-op (empty calldata)
           </code>
         </div>
       </div>
@@ -416,7 +966,10 @@ function ActionCard({ action, index }: { action: Action; index: number }) {
   return (
     <div className="border-2 border-green-500 bg-gray-950 rounded-lg p-4 hover:border-cyan-400 hover:shadow-[0_0_15px_rgba(6,182,212,0.3)] transition-all">
       <div className="flex items-center justify-between mb-3">
-        <h3 className="text-lg font-bold text-green-400">ACTION #{index + 1}</h3>
+        <h3 className="text-lg font-bold text-green-400">
+          ACTION #{index + 1}
+          {highestSeverity && <span className="ml-3 align-middle"><SeverityBadge severity={highestSeverity} /></span>}
+        </h3>
         <span className={`px-3 py-1 border-2 rounded text-xs font-bold uppercase tracking-wider ${
           action.type === 'DELEGATECALL'
             ? 'border-fuchsia-500 text-fuchsia-400 bg-fuchsia-950 shadow-[0_0_10px_rgba(217,70,239,0.3)]'
@@ -436,6 +989,25 @@ function ActionCard({ action, index }: { action: Action; index: number }) {
             <span className="ml-2 text-yellow-400">{formatEther(action.value)} ETH</span>
           </div>
         )}
+        {action.retryable && (
+          <div className="bg-gray-900 border border-cyan-600 rounded p-2 space-y-1">
+            <span className="font-bold text-cyan-400 uppercase text-xs">Retryable Ticket:</span>
+            <div className="flex items-baseline">
+              <span className="font-bold text-cyan-400 uppercase">L2 Call Value:</span>
+              <span className="ml-2 text-yellow-400">{formatEther(action.retryable.l2CallValue)} ETH</span>
+            </div>
+            <div className="flex items-baseline">
+              <span className="font-bold text-cyan-400 uppercase">Gas Limit:</span>
+              <span className="ml-2 text-green-400">
+                {action.retryable.gasLimit === '0' ? '0 (manual redeem)' : action.retryable.gasLimit}
+              </span>
+            </div>
+            <div className="flex items-baseline">
+              <span className="font-bold text-cyan-400 uppercase">Max Fee Per Gas:</span>
+              <span className="ml-2 text-green-400">{formatUnits(action.retryable.maxFeePerGas, 'gwei')} gwei</span>
+            </div>
+          </div>
+        )}
         <div>
           <span className="font-bold text-cyan-400 uppercase">
             {action.type === 'DELEGATECALL' ? 'Action Contract:' : 'Target:'}
@@ -470,9 +1042,7 @@ function ActionCard({ action, index }: { action: Action; index: number }) {
         {displayDecoded ? (
           <div>
             <span className="font-bold text-cyan-400 uppercase">Decoded Call Data:</span>
-            <code className="ml-2 text-cyan-300 bg-cyan-950 px-2 py-1 rounded border border-cyan-600 text-xs break-all block mt-1">
-              {displayDecoded}
-            </code>
+            <DecodedCallTree call={displayDecoded} />
           </div>
         ) : isDecoding ? (
           <div>
@@ -490,12 +1060,27 @@ function ActionCard({ action, index }: { action: Action; index: number }) {
             </code>
           </div>
         )}
+        {verification && <VerificationPanel verification={verification} />}
+        {(upgradeSummaries ?? upgrades).map((upgrade, i) => (
+          <UpgradePanel key={i} upgrade={upgrade} />
+        ))}
         {explanation && (
           <div className="bg-amber-950 border border-amber-500 rounded p-3 shadow-[0_0_10px_rgba(245,158,11,0.2)]">
             <span className="font-bold text-amber-400 uppercase text-xs">Explanation:</span>
             <p className="text-amber-200 mt-1">{explanation}</p>
           </div>
         )}
+        {action.warnings && action.warnings.length > 0 && (
+          <div className="bg-red-950 border border-red-500 rounded p-3 shadow-[0_0_10px_rgba(239,68,68,0.2)]">
+            <span className="font-bold text-red-400 uppercase text-xs">Warnings:</span>
+            {action.warnings.map((warning, i) => (
+              <p key={i} className="text-red-300 mt-1">
+                <SeverityBadge severity={warning.severity} />
+                <span className="ml-2">{warning.message}</span>
+              </p>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   )
@@ -504,15 +1089,19 @@ function ActionCard({ action, index }: { action: Action; index: number }) {
 function App() {
   const [inputData, setInputData] = useState('')
   const [actions, setActions] = useState<Action[] | null>(null)
+  const [operations, setOperations] = useState<L1TimelockOperation[]>([])
+  const [resolvedTx, setResolvedTx] = useState<ResolvedTransaction | null>(null)
+  const [reportSource, setReportSource] = useState<{ proposal: ProposalOption, governor: GovernorId } | null>(null)
+  const [councilChainID, setCouncilChainID] = useState(42161)
   const [error, setError] = useState<string | null>(null)
   const [copied, setCopied] = useState(false)
-  const [showProposalDropdown, setShowProposalDropdown] = useState(false)
-  const [showTreasuryDropdown, setShowTreasuryDropdown] = useState(false)
-  const [proposalOptions, setProposalOptions] = useState<ProposalOption[]>(STATIC_PROPOSALS)
-  const [treasuryOptions, setTreasuryOptions] = useState<TreasuryProposalOption[]>(STATIC_TREASURY_PROPOSALS)
+  const [reportCopied, setReportCopied] = useState(false)
+  const [openDropdown, setOpenDropdown] = useState<GovernorId | null>(null)
+  const [governorOptions, setGovernorOptions] = useState<Record<GovernorId, ProposalOption[]>>(() =>
+    Object.fromEntries(config.governors.map((governor) => [governor.id, staticProposals(governor)])),
+  )
   const [isFetchingProposals, setIsFetchingProposals] = useState(true)
-  const dropdownRef = useRef<HTMLDivElement>(null)
-  const treasuryDropdownRef = useRef<HTMLDivElement>(null)
+  const dropdownsRef = useRef<HTMLDivElement>(null)
 
   // Load data from URL parameter on mount
   useEffect(() => {
@@ -527,56 +1116,32 @@ function App() {
   useEffect(() => {
     async function fetchNewProposals() {
       try {
-        const provider = new JsonRpcProvider(ARB_RPC)
-        const latestBlock = await provider.getBlockNumber()
-        const fromBlock = LATEST_SAVED_BLOCK + 1
-
-        if (fromBlock > latestBlock) return
-
-        console.log(`[Proposals] Checking for new proposals from block ${fromBlock} to ${latestBlock}`)
-
-        // Fetch from both governors in parallel
-        const coreGovernor = new Contract(CORE_GOVERNOR_ADDRESS, GOVERNOR_ABI, provider)
-        const treasuryGovernor = new Contract(TREASURY_GOVERNOR_ADDRESS, GOVERNOR_ABI, provider)
-
-        const [coreEvents, treasuryEvents] = await Promise.all([
-          coreGovernor.queryFilter('ProposalCreated', fromBlock, latestBlock),
-          treasuryGovernor.queryFilter('ProposalCreated', fromBlock, latestBlock),
-        ])
-
-        if (coreEvents.length > 0) {
-          console.log(`[Proposals] Found ${coreEvents.length} new core proposal(s)`)
-          const newOptions: ProposalOption[] = coreEvents.map((event) => {
-            const e = event as any
-            const [proposalId, , , , , calldatas, , , description] = e.args
-            return {
-              id: proposalId.toString(),
-              label: description.slice(0, 50).replace(/\n/g, ' '),
-              calldata: calldatas[0],
-            }
-          }).reverse()
-          setProposalOptions((prev) => [...newOptions, ...prev])
-        }
-
-        if (treasuryEvents.length > 0) {
-          console.log(`[Proposals] Found ${treasuryEvents.length} new treasury proposal(s)`)
-          const newTreasuryOptions: TreasuryProposalOption[] = treasuryEvents.map((event) => {
-            const e = event as any
-            const [proposalId, , targets, values, , calldatas, , , description] = e.args
-            return {
-              id: proposalId.toString(),
-              label: description.slice(0, 50).replace(/\n/g, ' '),
-              targets: [...targets],
-              values: values.map((v: bigint) => v.toString()),
-              calldatas: [...calldatas],
-            }
-          }).reverse()
-          setTreasuryOptions((prev) => [...newTreasuryOptions, ...prev])
-        }
-
-        if (coreEvents.length === 0 && treasuryEvents.length === 0) {
-          console.log("No new proposals found")
-        }
+        // One provider and latest block per chain the governors live on
+        const chainIDs = [...new Set(config.governors.map((governor) => governor.chainID))]
+        const chains = new Map(await Promise.all(chainIDs.map(async (chainID) => {
+          const provider = getNetworkProvider(chainID)
+          if (!provider) throw new Error(`No RPC for chain ${chainID}`)
+          return [chainID, await provider.getBlockNumber()] as const
+        })))
+
+        // Fetch from every governor in parallel, through each chain's log backend
+        await Promise.all(config.governors.map(async (governor) => {
+          const latestBlock = chains.get(governor.chainID)!
+          const { proposals } = await updateGovernorIndex(
+            getChainBackend(governor.chainID, { apiKey: ETHERSCAN_API_KEY }),
+            governor.address,
+            { proposals: [], lastIndexedBlock: lastSavedBlock(governor) },
+            latestBlock,
+          )
+          console.log(`[Proposals] Found ${proposals.length} new ${governor.name} proposal(s) up to block ${latestBlock}`)
+          if (proposals.length === 0) return
+
+          const newOptions = proposals.map(toProposalOption).reverse()
+          setGovernorOptions((prev) => ({
+            ...prev,
+            [governor.id]: [...newOptions, ...(prev[governor.id] ?? []).filter((p) => !newOptions.some((option) => option.id === p.id))],
+          }))
+        }))
       } catch (err) {
         console.error('[Proposals] Failed to fetch new proposals:', err)
       } finally {
@@ -590,17 +1155,30 @@ function App() {
   // Close dropdowns on outside click
   useEffect(() => {
     const handleClick = (e: MouseEvent) => {
-      if (dropdownRef.current && !dropdownRef.current.contains(e.target as Node)) {
-        setShowProposalDropdown(false)
-      }
-      if (treasuryDropdownRef.current && !treasuryDropdownRef.current.contains(e.target as Node)) {
-        setShowTreasuryDropdown(false)
+      if (dropdownsRef.current && !dropdownsRef.current.contains(e.target as Node)) {
+        setOpenDropdown(null)
       }
     }
     document.addEventListener('mousedown', handleClick)
     return () => document.removeEventListener('mousedown', handleClick)
   }, [])
 
+  const storedLifecycle = reportSource ? LIFECYCLES.find((entry) => entry.proposalId === reportSource.proposal.id) : undefined
+  const [liveLifecycle, setLiveLifecycle] = useState<ProposalLifecycle | null>(null)
+
+  useEffect(() => {
+    if (!reportSource || storedLifecycle) return
+    let cancelled = false
+    fetchLiveLifecycle(reportSource.proposal, reportSource.governor)
+      .then((result) => {
+        if (!cancelled) setLiveLifecycle(result)
+      })
+      .catch((err) => console.error('[Lifecycle] Failed to read proposal lifecycle:', err))
+    return () => { cancelled = true }
+  }, [reportSource, storedLifecycle])
+
+  const lifecycle = storedLifecycle ?? (liveLifecycle?.proposalId === reportSource?.proposal.id ? liveLifecycle : undefined)
+
   const shareUrl = async () => {
     if (!inputData) return
 
@@ -616,10 +1194,33 @@ function App() {
     }
   }
 
+  const copyReport = async () => {
+    if (!reportSource || !actions) return
+
+    const { proposal, governor } = reportSource
+    const report = generateReport(
+      { proposalId: proposal.id, description: proposal.description, targets: proposal.targets, values: proposal.values, calldatas: proposal.calldatas },
+      governor,
+      actions,
+    )
+
+    try {
+      await navigator.clipboard.writeText(report)
+      setReportCopied(true)
+      setTimeout(() => setReportCopied(false), 2000)
+    } catch (err) {
+      console.error('Failed to copy:', err)
+    }
+  }
+
   useEffect(() => {
+    let cancelled = false
     const timer = setTimeout(() => {
       setError(null)
       setActions(null)
+      setOperations([])
+      setResolvedTx(null)
+      setReportSource(null)
 
       if (!inputData.trim()) {
         return
@@ -628,30 +1229,62 @@ function App() {
       const trimmed = inputData.trim()
 
       const isEmptyCalldata = (cd: string) => !cd || cd === '0x' || cd === '0x00'
-      const NOOP_ACTIONS: Action[] = [{ type: 'CALL' as const, address: '', chainID: 0, callData: '', decodedCallData: 'No-op (empty calldata)' }]
-
-      // Check if input is a proposal ID (all digits, ~77 chars)
-      if (/^\d{70,80}$/.test(trimmed)) {
-        // Check core governor
-        const staticMatch = proposalsData.find((p) => p.proposalId === trimmed)
-        const liveMatch = proposalOptions.find((p) => p.id === trimmed)
-        if (staticMatch) {
-          if (isEmptyCalldata(staticMatch.calldatas[0])) {
-            setActions(NOOP_ACTIONS)
-          } else {
-            try {
-              setActions(decode(staticMatch.calldatas[0]))
-            } catch (err) {
-              setError(err instanceof Error ? err.message : 'Unknown error occurred')
+      const NOOP_ACTIONS: Action[] = [{ type: 'CALL' as const, address: '', chainID: 0, callData: '' }]
+
+      // Transaction hash — look it up on-chain and cross-check against the known proposals
+      if (/^0x[0-9a-fA-F]{64}$/.test(trimmed)) {
+        const toCalls = (options: ProposalOption[]): ProposalCalls[] =>
+          options.map((p) => ({ proposalId: p.id, description: p.description, targets: p.targets, values: p.values, calldatas: p.calldatas }))
+
+        const proposals = Object.fromEntries(Object.entries(governorOptions).map(([id, options]) => [id, toCalls(options)]))
+        const show = (fetched: FetchedTransaction) => {
+          try {
+            const resolved = resolveFetchedTransaction(fetched, proposals)
+            setError(null)
+            setResolvedTx(resolved)
+            setActions(resolved.actions)
+            setOperations(resolved.operations)
+            const { governor, crossCheck } = resolved
+            const proposal = governor && governorOptions[governor]?.find((p) => p.id === crossCheck?.proposalId)
+            if (proposal && crossCheck?.status === 'match') {
+              setReportSource({ proposal, governor })
             }
+          } catch (err) {
+            setError(err instanceof Error ? err.message : 'Unknown error occurred')
           }
+        }
+
+        // Already looked up: only the cross-check runs again, against the current proposals
+        const fetched = fetchedTransactions.get(trimmed.toLowerCase())
+        if (fetched) {
+          show(fetched)
           return
-        } else if (liveMatch) {
-          if (isEmptyCalldata(liveMatch.calldata)) {
+        }
+        setError('Fetching...')
+        fetchTransactionCached(trimmed.toLowerCase())
+          .then((result) => {
+            if (!cancelled) show(result)
+          })
+          .catch((err) => {
+            if (!cancelled) setError(err instanceof Error ? err.message : 'Unknown error occurred')
+          })
+        return
+      }
+
+      // Check if input is a proposal ID (all digits, ~77 chars)
+      if (/^\d{70,80}$/.test(trimmed)) {
+        // Check each governor in config order
+        for (const governor of config.governors) {
+          const match = governorOptions[governor.id]?.find((p) => p.id === trimmed)
+          if (!match) continue
+
+          setReportSource({ proposal: match, governor: governor.id })
+          if (governor.decode === 'core' && match.calldatas.every(isEmptyCalldata)) {
             setActions(NOOP_ACTIONS)
           } else {
             try {
-              setActions(decode(liveMatch.calldata))
+              setActions(decodeStoredProposal(match, governor.id))
+              if (governor.decode === 'core') setOperations(getOperations(match.targets, match.calldatas))
             } catch (err) {
               setError(err instanceof Error ? err.message : 'Unknown error occurred')
             }
@@ -659,17 +1292,6 @@ function App() {
           return
         }
 
-        // Check treasury governor
-        const treasuryStaticMatch = treasuryProposalsData.find((p) => p.proposalId === trimmed)
-        const treasuryLiveMatch = treasuryOptions.find((p) => p.id === trimmed)
-        if (treasuryStaticMatch) {
-          setActions(decodeTreasury(treasuryStaticMatch.targets, treasuryStaticMatch.values, treasuryStaticMatch.calldatas))
-          return
-        } else if (treasuryLiveMatch) {
-          setActions(decodeTreasury(treasuryLiveMatch.targets, treasuryLiveMatch.values, treasuryLiveMatch.calldatas))
-          return
-        }
-
         if (isFetchingProposals) {
           setError('Fetching...')
         } else {
@@ -678,21 +1300,35 @@ function App() {
         return
       }
 
+      // Security Council Safe payloads bypass the governor path entirely
+      if (isSafeTransactionPayload(trimmed)) {
+        try {
+          setActions(decodeSecurityCouncilTransaction(trimmed, councilChainID))
+        } catch (err) {
+          setError(err instanceof Error ? err.message : 'Unknown error occurred')
+        }
+        return
+      }
+
       // Raw calldata — try core governor decode
       if (isEmptyCalldata(trimmed)) {
         setActions(NOOP_ACTIONS)
       } else {
         try {
-          const result = decode(trimmed)
-          setActions(result)
+          const operation = decodeOperation(trimmed)
+          setActions(operation.actions)
+          setOperations([operation])
         } catch (err) {
           setError(err instanceof Error ? err.message : 'Unknown error occurred')
         }
       }
     }, 300)
 
-    return () => clearTimeout(timer)
-  }, [inputData, proposalOptions, treasuryOptions, isFetchingProposals])
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [inputData, governorOptions, isFetchingProposals, councilChainID])
 
   return (
     <div className="min-h-screen bg-black py-8 px-4 font-mono">
@@ -733,57 +1369,38 @@ function App() {
               >
                 {copied ? '✓ Copied!' : 'Share URL'}
               </button>
-              <div ref={dropdownRef} className="relative">
-                <button
-                  onClick={() => { setShowProposalDropdown(!showProposalDropdown); setShowTreasuryDropdown(false) }}
-                  className="px-3 py-1 text-xs bg-fuchsia-950 border border-fuchsia-500 text-fuchsia-400 rounded hover:bg-fuchsia-900 hover:shadow-[0_0_10px_rgba(217,70,239,0.3)] transition-all uppercase tracking-wide font-bold"
-                >
-                  Core {showProposalDropdown ? '▲' : '▼'}
-                </button>
-                {showProposalDropdown && (
-                  <div className="absolute right-0 mt-1 w-96 max-h-64 overflow-auto bg-gray-950 border border-fuchsia-500 rounded shadow-[0_0_15px_rgba(217,70,239,0.3)] z-10">
-                    {proposalOptions.map((p) => (
-                      <button
-                        key={p.id}
-                        onClick={() => {
-                          setInputData(p.calldata)
-                          setShowProposalDropdown(false)
-                        }}
-                        className="w-full text-left px-3 py-2 text-xs text-fuchsia-300 hover:bg-fuchsia-950 hover:text-fuchsia-200 border-b border-fuchsia-900 last:border-b-0 transition-colors"
-                      >
-                        <div className="truncate">{p.label}</div>
-                        <div className="text-fuchsia-600 truncate text-[10px]">ID: {p.id.slice(0, 20)}...</div>
-                      </button>
-                    ))}
-                  </div>
-                )}
-              </div>
-              <div ref={treasuryDropdownRef} className="relative">
-                <button
-                  onClick={() => { setShowTreasuryDropdown(!showTreasuryDropdown); setShowProposalDropdown(false) }}
-                  className="px-3 py-1 text-xs bg-amber-950 border border-amber-500 text-amber-400 rounded hover:bg-amber-900 hover:shadow-[0_0_10px_rgba(245,158,11,0.3)] transition-all uppercase tracking-wide font-bold"
-                >
-                  Treasury {showTreasuryDropdown ? '▲' : '▼'}
-                </button>
-                {showTreasuryDropdown && (
-                  <div className="absolute right-0 mt-1 w-96 max-h-64 overflow-auto bg-gray-950 border border-amber-500 rounded shadow-[0_0_15px_rgba(245,158,11,0.3)] z-10">
-                    {treasuryOptions.map((p) => (
+              <div ref={dropdownsRef} className="flex gap-2">
+                {config.governors.map((governor, index) => {
+                  const styles = governorDropdownStyles[index % governorDropdownStyles.length]
+                  const isOpen = openDropdown === governor.id
+                  return (
+                    <div key={governor.id} className="relative">
                       <button
-                        key={p.id}
-                        onClick={() => {
-                          setActions(decodeTreasury(p.targets, p.values, p.calldatas))
-                          setError(null)
-                          setInputData('')
-                          setShowTreasuryDropdown(false)
-                        }}
-                        className="w-full text-left px-3 py-2 text-xs text-amber-300 hover:bg-amber-950 hover:text-amber-200 border-b border-amber-900 last:border-b-0 transition-colors"
+                        onClick={() => setOpenDropdown(isOpen ? null : governor.id)}
+                        className={`px-3 py-1 text-xs border rounded transition-all uppercase tracking-wide font-bold ${styles.button}`}
                       >
-                        <div className="truncate">{p.label}</div>
-                        <div className="text-amber-600 truncate text-[10px]">ID: {p.id.slice(0, 20)}...</div>
+                        {governor.name.replace(/ Governor$/, '')} {isOpen ? '▲' : '▼'}
                       </button>
-                    ))}
-                  </div>
-                )}
+                      {isOpen && (
+                        <div className={`absolute right-0 mt-1 w-96 max-h-64 overflow-auto bg-gray-950 border rounded z-10 ${styles.menu}`}>
+                          {(governorOptions[governor.id] ?? []).map((p) => (
+                            <button
+                              key={p.id}
+                              onClick={() => {
+                                setInputData(p.id)
+                                setOpenDropdown(null)
+                              }}
+                              className={`w-full text-left px-3 py-2 text-xs border-b last:border-b-0 transition-colors ${styles.item}`}
+                            >
+                              <div className="truncate">{p.label}</div>
+                              <div className={`truncate text-[10px] ${styles.id}`}>ID: {p.id.slice(0, 20)}...</div>
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )
+                })}
               </div>
             </div>
           </div>
@@ -792,8 +1409,26 @@ function App() {
             value={inputData}
             onChange={(e) => setInputData(e.target.value)}
             className="w-full h-32 px-3 py-2 text-sm bg-gray-900 border border-green-500 rounded text-green-400 focus:outline-none focus:border-cyan-400 focus:shadow-[0_0_10px_rgba(6,182,212,0.5)] font-mono placeholder-green-700"
-            placeholder="select proposal from dropdown, paste proposal id, or paste raw data (as found in tally ui) here..."
+            placeholder="select proposal from dropdown, paste proposal id or tx hash, or paste raw data (as found in tally ui) here..."
           />
+          {isSafeTransactionPayload(inputData) && (
+            <div className="mt-2 flex items-center gap-2 text-xs">
+              <label htmlFor="council-chain" className="font-bold text-fuchsia-400 uppercase tracking-wide">
+                Security Council tx on:
+              </label>
+              <select
+                id="council-chain"
+                value={councilChainID}
+                onChange={(e) => setCouncilChainID(Number(e.target.value))}
+                className="bg-gray-900 border border-fuchsia-500 rounded text-fuchsia-300 px-2 py-1 focus:outline-none focus:border-cyan-400"
+              >
+                {[1, ...config.chains.map((chain) => chain.chainID)].map((chainID) => (
+                  <option key={chainID} value={chainID}>{getChainName(chainID)}</option>
+                ))}
+              </select>
+              <span className="text-fuchsia-700">(Safe JSON with a chainId overrides this)</span>
+            </div>
+          )}
         </div>
 
         {error && error === 'Fetching...' && (
@@ -824,10 +1459,33 @@ function App() {
 
         {actions && actions.length > 0 && (
           <div className="bg-black border-2 border-cyan-500 rounded-lg p-6 shadow-[0_0_20px_rgba(6,182,212,0.4)]">
-            <h2 className="text-2xl font-bold text-cyan-400 mb-4 uppercase tracking-wide">
-              {'>'} DECODED ACTIONS [{actions.length}]
-            </h2>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-2xl font-bold text-cyan-400 uppercase tracking-wide">
+                {'>'} DECODED ACTIONS [{actions.length}]
+              </h2>
+              {reportSource && (
+                <button
+                  onClick={copyReport}
+                  className={`px-3 py-1 text-xs border rounded uppercase tracking-wide font-bold transition-all ${
+                    reportCopied
+                      ? 'bg-green-950 border-green-500 text-green-400 shadow-[0_0_10px_rgba(34,197,94,0.3)]'
+                      : 'bg-cyan-950 border-cyan-500 text-cyan-400 hover:bg-cyan-900 hover:shadow-[0_0_10px_rgba(6,182,212,0.3)]'
+                  }`}
+                >
+                  {reportCopied ? '✓ Copied!' : 'Copy Report'}
+                </button>
+              )}
+            </div>
             <div className="space-y-4">
+              {resolvedTx && <ResolvedTransactionCard resolved={resolvedTx} />}
+              {lifecycle && <ProposalLifecyclePanel lifecycle={lifecycle} />}
+              <TreasuryOutflowsPanel actions={actions} />
+              {operations.map((operation) => (
+                <div key={operation.id} className="space-y-4">
+                  <ExecutionTimeline hops={operation.executionPath} />
+                  <TimelockOperationCard operation={operation} />
+                </div>
+              ))}
               {actions.map((action, index) => (
                 <ActionCard key={index} action={action} index={index} />
               ))}
@@ -870,6 +1528,21 @@ function App() {
               <a href="https://www.tally.xyz/gov/arbitrum" target="_blank" rel="noopener noreferrer" className="text-cyan-400 hover:text-cyan-300">Tally</a>
               <a href="https://docs.arbitrum.foundation/concepts/lifecycle-anatomy-aip-proposal" target="_blank" rel="noopener noreferrer" className="text-cyan-400 hover:text-cyan-300">Foundation Docs</a>
               <a href="https://github.com/ArbitrumFoundation/governance/blob/main/docs/proposal_lifecycle_example.md" target="_blank" rel="noopener noreferrer" className="text-cyan-400 hover:text-cyan-300">Contract Docs</a>
+              <span className="text-green-400 font-bold mt-2 mb-1">Lookup Cache</span>
+              <button onClick={exportLookupCache} className="text-left text-cyan-400 hover:text-cyan-300">Export</button>
+              <label className="text-cyan-400 hover:text-cyan-300 cursor-pointer">
+                Import
+                <input
+                  type="file"
+                  accept="application/json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0]
+                    if (file) importLookupCache(file)
+                    e.target.value = ''
+                  }}
+                />
+              </label>
             </div></div>
           </div>
         </footer>
@@ -0,0 +1,54 @@
+import type { CacheEntry, CacheStore } from '../../src/cache'
+
+const openDatabase = (name: string, storeName: string): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, 1)
+    request.onupgradeneeded = () => request.result.createObjectStore(storeName)
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const completed = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+// Browser counterpart of src/fileCache.ts; falls back to memory where IndexedDB is unavailable
+// (private windows in some browsers), so a lookup only ever costs a refetch
+export function createIndexedDBStore(name = 'proposal-decoder', storeName = 'lookups'): CacheStore {
+  const database = openDatabase(name, storeName).catch((error) => {
+    console.warn('[Cache] IndexedDB unavailable, caching in memory only:', error)
+    return null
+  })
+  const memory = new Map<string, CacheEntry>()
+
+  const objectStore = async (mode: IDBTransactionMode) =>
+    (await database)?.transaction(storeName, mode).objectStore(storeName)
+
+  return {
+    get: async (key) => {
+      const store = await objectStore('readonly')
+      return store ? completed<CacheEntry | undefined>(store.get(key)) : memory.get(key)
+    },
+    set: async (key, entry) => {
+      const store = await objectStore('readwrite')
+      if (store) await completed(store.put(entry, key))
+      else memory.set(key, entry)
+    },
+    delete: async (key) => {
+      const store = await objectStore('readwrite')
+      if (store) await completed(store.delete(key))
+      else memory.delete(key)
+    },
+    entries: async () => {
+      const store = await objectStore('readonly')
+      if (!store) return [...memory]
+      const [keys, values] = await Promise.all([
+        completed(store.getAllKeys()),
+        completed<CacheEntry[]>(store.getAll()),
+      ])
+      return keys.map((key, i) => [String(key), values[i]])
+    },
+  }
+}